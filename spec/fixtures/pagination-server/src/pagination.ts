@@ -0,0 +1,213 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  type PaginatedRequest,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Reads `--name <value>` from the command line, falling back to an env var
+function numericSetting(flag: string, envVar: string, fallback: number): number {
+  const flagIndex = process.argv.indexOf(flag);
+  const value = Number(
+    (flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined) ??
+      process.env[envVar]
+  );
+
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+// Items per page for every list method (`--page-size` / `PAGE_SIZE`)
+export const PAGE_SIZE = Math.max(1, numericSetting("--page-size", "PAGE_SIZE", 1));
+
+// Extra generated items added to each list (`--catalog-size` / `CATALOG_SIZE`)
+export const CATALOG_SIZE = numericSetting("--catalog-size", "CATALOG_SIZE", 0);
+
+// Changes the catalog while a client pages through it
+// (`--mutate-catalog <mode>` / `MUTATE_CATALOG`): see catalogMutator
+type CatalogMutation = "insert" | "delete" | "alternate";
+
+const MUTATE_CATALOG = ((): CatalogMutation | undefined => {
+  const flagIndex = process.argv.indexOf("--mutate-catalog");
+  const mode =
+    (flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined) ??
+    process.env.MUTATE_CATALOG;
+
+  return mode === "insert" || mode === "delete" || mode === "alternate"
+    ? mode
+    : undefined;
+})();
+
+// How long a cursor stays valid (`--cursor-ttl-ms` / `CURSOR_TTL_MS`)
+export const CURSOR_TTL_MS = numericSetting("--cursor-ttl-ms", "CURSOR_TTL_MS", 5 * 60_000);
+
+// Cursors are signed so clients can't forge or edit them. Set `CURSOR_SECRET`
+// to keep cursors valid across restarts; otherwise a random one is used.
+const CURSOR_SECRET = process.env.CURSOR_SECRET || randomBytes(32).toString("hex");
+
+interface Cursor {
+  list: string;
+  offset: number;
+  expiresAt: number;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac("sha256", CURSOR_SECRET).update(payload).digest();
+}
+
+function invalidCursor(reason: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${reason}`);
+}
+
+export function encodeCursor(list: string, offset: number): string {
+  const cursor: Cursor = { list, offset, expiresAt: Date.now() + CURSOR_TTL_MS };
+  const payload = Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  return `${payload}.${sign(payload).toString("base64url")}`;
+}
+
+/**
+ * Decodes a cursor issued for `list`, throwing a -32602 McpError when it is
+ * malformed, was tampered with, has expired or belongs to another list.
+ */
+export function decodeCursor(list: string, value: string): Cursor {
+  const [payload, signature, ...rest] = value.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    throw invalidCursor("malformed");
+  }
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalidCursor("signature mismatch");
+  }
+
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+  } catch {
+    throw invalidCursor("malformed");
+  }
+  if (
+    typeof cursor?.list !== "string" ||
+    !Number.isInteger(cursor.offset) ||
+    cursor.offset < 0 ||
+    typeof cursor.expiresAt !== "number"
+  ) {
+    throw invalidCursor("malformed");
+  }
+
+  if (cursor.expiresAt <= Date.now()) throw invalidCursor("expired");
+  if (cursor.list !== list) throw invalidCursor(`not a ${list} cursor`);
+  return cursor;
+}
+
+/**
+ * Returns one page of `items`. Cursors are opaque to clients: a signed,
+ * time-limited, base64url-encoded position in one particular list.
+ */
+export function paginate<T>(
+  list: string,
+  items: T[],
+  cursor?: string
+): { items: T[]; nextCursor?: string } {
+  let offset = 0;
+  if (cursor !== undefined) {
+    offset = decodeCursor(list, cursor).offset;
+  }
+
+  const end = offset + PAGE_SIZE;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(list, end) : undefined,
+  };
+}
+
+/**
+ * Builds the mutation run between page fetches when `MUTATE_CATALOG` is set.
+ * Each listing inserts a newly generated item (appended, so it lands on a
+ * later page), deletes the oldest generated item, or alternates between the
+ * two from one listing to the next. McpServer emits `list_changed` for every change.
+ */
+export function catalogMutator<T extends { remove(): void }>(
+  generated: T[],
+  create: (index: number) => T
+): (() => void) | undefined {
+  if (!MUTATE_CATALOG) return undefined;
+
+  // Set on the first mutation, once the generated catalog is registered
+  let nextIndex: number | undefined;
+  let step = 0;
+  return () => {
+    nextIndex ??= generated.length + 1;
+    step += 1;
+    const insert =
+      MUTATE_CATALOG === "insert" ||
+      (MUTATE_CATALOG === "alternate" && step % 2 === 1);
+
+    if (insert) {
+      generated.push(create(nextIndex++));
+    } else {
+      generated.shift()?.remove();
+    }
+  };
+}
+
+type ListRequestSchema =
+  | typeof ListToolsRequestSchema
+  | typeof ListResourcesRequestSchema
+  | typeof ListResourceTemplatesRequestSchema
+  | typeof ListPromptsRequestSchema;
+
+type ListHandler<K extends string> = (
+  request: PaginatedRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => Promise<Record<K, unknown[]>>;
+
+/**
+ * Pages a list method. The full list still comes from McpServer's own
+ * handler, so everything registered on the server (including the generated
+ * catalog) is paged over. `mutate`, if given, runs once per listing: after
+ * serving a first page that leaves more pages to fetch.
+ *
+ * Must be called before the first item of the list is registered: McpServer
+ * installs its list handler then, and this keeps that handler and installs
+ * the paginated one in its place.
+ */
+export function paginateListHandler<K extends string>(
+  server: McpServer,
+  schema: ListRequestSchema,
+  key: K,
+  mutate?: () => void
+) {
+  const rawServer = server.server;
+  const setRequestHandler = rawServer.setRequestHandler.bind(rawServer);
+
+  rawServer.setRequestHandler = (requestSchema, handler) => {
+    const installed: object = requestSchema;
+    if (installed !== schema) {
+      setRequestHandler(requestSchema, handler);
+      return;
+    }
+
+    const listAll = handler as ListHandler<K>;
+    setRequestHandler(schema, async (request, extra) => {
+      const cursor = request.params?.cursor;
+      const result = await listAll({ method: request.method, params: {} }, extra);
+      const page = paginate(key, result[key], cursor);
+      // Only after the first page, so an ever-growing catalog still ends
+      if (page.nextCursor && cursor === undefined) mutate?.();
+
+      return {
+        [key]: page.items,
+        nextCursor: page.nextCursor,
+      };
+    });
+  };
+}
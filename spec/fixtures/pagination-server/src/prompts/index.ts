@@ -1,8 +1,48 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  type RegisteredPrompt,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ListPromptsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+import {
+  CATALOG_SIZE,
+  catalogMutator,
+  paginateListHandler,
+} from "../pagination.js";
+
 export function setupPrompts(server: McpServer) {
+  // Generated prompts, so clients can page through a larger catalog
+  const generated: RegisteredPrompt[] = [];
+  const registerGeneratedPrompt = (i: number) => {
+    const name = `generated_prompt_${String(i).padStart(3, "0")}`;
+    return server.prompt(
+      name,
+      `Generated prompt #${i}`,
+      { topic: z.string().optional().describe("Topic to write about") },
+      async ({ topic }) => ({
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: `${name}: write about ${topic ?? "anything"}`,
+            },
+          },
+        ],
+      })
+    );
+  };
+
+  // Paginate prompts/list with PAGE_SIZE prompts per page. This goes before
+  // the first prompt, whose registration installs the handler it wraps.
+  paginateListHandler(
+    server,
+    ListPromptsRequestSchema,
+    "prompts",
+    catalogMutator(generated, registerGeneratedPrompt)
+  );
+
   // Prompt 1: Code Review - will appear on page 1
   server.prompt(
     "code_review",
@@ -58,63 +98,8 @@ export function setupPrompts(server: McpServer) {
     }
   );
 
-  // Override the default prompts/list handler to implement pagination
-  const rawServer = server.server;
-  rawServer.setRequestHandler(ListPromptsRequestSchema, async (request) => {
-    const cursor = request.params?.cursor;
-    const prompts = [
-      {
-        name: "code_review",
-        description: "Review code for best practices and potential issues",
-        arguments: [
-          {
-            name: "code",
-            description: "The code to review",
-            required: true,
-          },
-          {
-            name: "language",
-            description: "Programming language",
-            required: false,
-          },
-        ],
-      },
-      {
-        name: "summarize_text",
-        description: "Generate a concise summary of the provided text",
-        arguments: [
-          {
-            name: "text",
-            description: "The text to summarize",
-            required: true,
-          },
-          {
-            name: "length",
-            description: "Desired summary length",
-            required: false,
-          },
-        ],
-      },
-    ];
-
-    // Pagination logic: 1 prompt per page
-    if (!cursor) {
-      // Page 1: Return first prompt
-      return {
-        prompts: [prompts[0]],
-        nextCursor: "page_2",
-      };
-    } else if (cursor === "page_2") {
-      // Page 2: Return second prompt
-      return {
-        prompts: [prompts[1]],
-        // No nextCursor - this is the last page
-      };
-    } else {
-      // Invalid cursor or beyond available pages
-      return {
-        prompts: [],
-      };
-    }
-  });
+  // The generated prompts come after the fixed ones
+  for (let i = 1; i <= CATALOG_SIZE; i++) {
+    generated.push(registerGeneratedPrompt(i));
+  }
 }
@@ -1,13 +1,72 @@
 import {
   McpServer,
   ResourceTemplate,
+  type RegisteredResource,
+  type RegisteredResourceTemplate,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
+import {
+  CATALOG_SIZE,
+  catalogMutator,
+  paginateListHandler,
+} from "../pagination.js";
+
 export function setupResources(server: McpServer) {
+  // Generated resources and templates, so clients can page through a larger catalog
+  const generatedResources: RegisteredResource[] = [];
+  const registerGeneratedResource = (i: number) => {
+    const id = String(i).padStart(3, "0");
+    return server.resource(
+      `generated-resource-${id}`,
+      `file://generated/resource-${id}.txt`,
+      {
+        name: `Generated Resource ${id}`,
+        description: `Generated resource #${i}`,
+        mimeType: "text/plain",
+      },
+      async (uri) => ({
+        contents: [{ uri: uri.href, text: `Contents of generated resource #${i}` }],
+      })
+    );
+  };
+
+  const generatedTemplates: RegisteredResourceTemplate[] = [];
+  const registerGeneratedTemplate = (i: number) => {
+    const id = String(i).padStart(3, "0");
+    return server.resource(
+      `generated-template-${id}`,
+      new ResourceTemplate(`generated${id}://{itemId}`, { list: undefined }),
+      {
+        name: `Generated Template ${id}`,
+        description: `Generated resource template #${i}`,
+        mimeType: "text/plain",
+      },
+      async (uri, { itemId }) => ({
+        contents: [{ uri: uri.href, text: `Generated template #${i}, item ${itemId}` }],
+      })
+    );
+  };
+
+  // Paginate resources/list and resources/templates/list with PAGE_SIZE items
+  // per page. This goes before the first resource, whose registration
+  // installs the handlers it wraps.
+  paginateListHandler(
+    server,
+    ListResourcesRequestSchema,
+    "resources",
+    catalogMutator(generatedResources, registerGeneratedResource)
+  );
+  paginateListHandler(
+    server,
+    ListResourceTemplatesRequestSchema,
+    "resourceTemplates",
+    catalogMutator(generatedTemplates, registerGeneratedTemplate)
+  );
+
   // Resource 1: Configuration Data - will appear on page 1
   server.resource(
     "config",
@@ -130,86 +189,9 @@ Lorem ipsum content for demonstration purposes...`;
     }
   );
 
-  // Override the default resources/list handler to implement pagination
-  const rawServer = server.server;
-  rawServer.setRequestHandler(ListResourcesRequestSchema, async (request) => {
-    const cursor = request.params?.cursor;
-    const resources = [
-      {
-        uri: "file://config.json",
-        name: "Configuration",
-        description: "Application configuration data",
-        mimeType: "application/json",
-      },
-      {
-        uri: "file://data.csv",
-        name: "Sample Data",
-        description: "Sample CSV data for testing",
-        mimeType: "text/csv",
-      },
-    ];
-
-    // Pagination logic: 1 resource per page
-    if (!cursor) {
-      // Page 1: Return first resource
-      return {
-        resources: [resources[0]],
-        nextCursor: "page_2",
-      };
-    } else if (cursor === "page_2") {
-      // Page 2: Return second resource
-      return {
-        resources: [resources[1]],
-        // No nextCursor - this is the last page
-      };
-    } else {
-      // Invalid cursor or beyond available pages
-      return {
-        resources: [],
-      };
-    }
-  });
-
-  // Add pagination for resource templates
-  // Note: Using a manual schema since ListResourceTemplatesRequestSchema might not be exported
-  rawServer.setRequestHandler(
-    ListResourceTemplatesRequestSchema,
-    async (request) => {
-      const cursor = request.params?.cursor;
-      const resourceTemplates = [
-        {
-          uriTemplate: "users://{userId}/profile",
-          name: "User Profile",
-          description: "Dynamic user profile information",
-          mimeType: "application/json",
-        },
-        {
-          uriTemplate: "files://{path}",
-          name: "File Content",
-          description: "Access file content by path",
-          mimeType: "text/plain",
-        },
-      ];
-
-      // Pagination logic: 1 resource template per page
-      if (!cursor) {
-        // Page 1: Return first resource template
-        return {
-          resourceTemplates: [resourceTemplates[0]],
-          nextCursor: "page_2",
-        };
-      } else if (cursor === "page_2") {
-        // Page 2: Return second resource template
-        return {
-          resourceTemplates: [resourceTemplates[1]],
-          // No nextCursor - this is the last page
-        };
-      } else {
-        // Invalid cursor or beyond available pages
-        return {
-          resourceTemplates: [],
-        };
-      }
-    }
-  );
+  // The generated resources and templates come after the fixed ones
+  for (let i = 1; i <= CATALOG_SIZE; i++) {
+    generatedResources.push(registerGeneratedResource(i));
+    generatedTemplates.push(registerGeneratedTemplate(i));
+  }
 }
@@ -1,8 +1,40 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  type RegisteredTool,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+import {
+  CATALOG_SIZE,
+  catalogMutator,
+  paginateListHandler,
+} from "../pagination.js";
+
 export function setupTools(server: McpServer) {
+  // Generated tools, so clients can page through a larger catalog
+  const generated: RegisteredTool[] = [];
+  const registerGeneratedTool = (i: number) => {
+    const name = `generated_tool_${String(i).padStart(3, "0")}`;
+    return server.tool(
+      name,
+      `Generated tool #${i}`,
+      { value: z.string().optional().describe("Value to echo back") },
+      async ({ value }) => ({
+        content: [{ type: "text", text: `${name}: ${value ?? "no value"}` }],
+      })
+    );
+  };
+
+  // Paginate tools/list with PAGE_SIZE tools per page. This goes before the
+  // first tool, whose registration installs the handler it wraps.
+  paginateListHandler(
+    server,
+    ListToolsRequestSchema,
+    "tools",
+    catalogMutator(generated, registerGeneratedTool)
+  );
+
   // Tool 1: Add Numbers - will appear on page 1
   server.tool(
     "add_numbers",
@@ -45,55 +77,8 @@ export function setupTools(server: McpServer) {
     }
   );
 
-  // Override the default tools/list handler to implement pagination
-  const rawServer = server.server;
-  rawServer.setRequestHandler(ListToolsRequestSchema, async (request) => {
-    const cursor = request.params?.cursor;
-    const tools = [
-      {
-        name: "add_numbers",
-        description: "Add two numbers together",
-        inputSchema: {
-          type: "object",
-          properties: {
-            a: { type: "number", description: "First number" },
-            b: { type: "number", description: "Second number" },
-          },
-          required: ["a", "b"],
-        },
-      },
-      {
-        name: "multiply_numbers",
-        description: "Multiply two numbers together",
-        inputSchema: {
-          type: "object",
-          properties: {
-            a: { type: "number", description: "First number" },
-            b: { type: "number", description: "Second number" },
-          },
-          required: ["a", "b"],
-        },
-      },
-    ];
-
-    // Pagination logic: 1 tool per page
-    if (!cursor) {
-      // Page 1: Return first tool
-      return {
-        tools: [tools[0]],
-        nextCursor: "page_2",
-      };
-    } else if (cursor === "page_2") {
-      // Page 2: Return second tool
-      return {
-        tools: [tools[1]],
-        // No nextCursor - this is the last page
-      };
-    } else {
-      // Invalid cursor or beyond available pages
-      return {
-        tools: [],
-      };
-    }
-  });
+  // The generated tools come after the fixed ones
+  for (let i = 1; i <= CATALOG_SIZE; i++) {
+    generated.push(registerGeneratedTool(i));
+  }
 }
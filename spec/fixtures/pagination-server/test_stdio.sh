@@ -2,18 +2,36 @@
 
 echo "Testing MCP Pagination Server via stdio..."
 
+# Cursors are signed, so every server run here shares one secret
+export CURSOR_SECRET="test-stdio-secret"
+
+# Page 1's nextCursor for tools/list, from a first run of the server
+VALID_CURSOR=$(printf '%s\n' \
+    '{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{},"clientInfo":{"name":"test-client","version":"1.0.0"}}}' \
+    '{"jsonrpc":"2.0","method":"notifications/initialized"}' \
+    '{"jsonrpc":"2.0","id":2,"method":"tools/list","params":{}}' |
+    bun src/index.ts --stdio | grep -o '"nextCursor":"[^"]*"' | cut -d'"' -f4)
+# The same cursor with its first payload character changed (the last
+# signature character carries padding bits, so changing it may not stick)
+TAMPERED_CURSOR="$([[ ${VALID_CURSOR:0:1} == e ]] && echo f || echo e)${VALID_CURSOR:1}"
+# A cursor for the same position that expired as soon as it was issued
+EXPIRED_CURSOR=$(CURSOR_TTL_MS=0 bun -e "import { encodeCursor } from './src/pagination.ts'; console.log(encodeCursor('tools', 1));")
+
 # Create a temporary file for MCP commands
-cat > mcp_test_commands.json << 'EOF'
+cat > mcp_test_commands.json << EOF
 {"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-03-26","capabilities":{"tools":{},"resources":{},"prompts":{}},"clientInfo":{"name":"test-client","version":"1.0.0"}}}
 {"jsonrpc":"2.0","method":"notifications/initialized"}
 {"jsonrpc":"2.0","id":2,"method":"tools/list","params":{}}
-{"jsonrpc":"2.0","id":3,"method":"tools/list","params":{"cursor":"page_2"}}
+{"jsonrpc":"2.0","id":3,"method":"tools/list","params":{"cursor":"not-a-cursor"}}
 {"jsonrpc":"2.0","id":4,"method":"resources/list","params":{}}
-{"jsonrpc":"2.0","id":5,"method":"resources/list","params":{"cursor":"page_2"}}
+{"jsonrpc":"2.0","id":5,"method":"resources/list","params":{"cursor":"not-a-cursor"}}
 {"jsonrpc":"2.0","id":6,"method":"prompts/list","params":{}}
-{"jsonrpc":"2.0","id":7,"method":"prompts/list","params":{"cursor":"page_2"}}
+{"jsonrpc":"2.0","id":7,"method":"prompts/list","params":{"cursor":"not-a-cursor"}}
 {"jsonrpc":"2.0","id":8,"method":"resources/templates/list","params":{}}
-{"jsonrpc":"2.0","id":9,"method":"resources/templates/list","params":{"cursor":"page_2"}}
+{"jsonrpc":"2.0","id":9,"method":"resources/templates/list","params":{"cursor":"not-a-cursor"}}
+{"jsonrpc":"2.0","id":10,"method":"tools/list","params":{"cursor":"$VALID_CURSOR"}}
+{"jsonrpc":"2.0","id":11,"method":"tools/list","params":{"cursor":"$TAMPERED_CURSOR"}}
+{"jsonrpc":"2.0","id":12,"method":"tools/list","params":{"cursor":"$EXPIRED_CURSOR"}}
 EOF
 
 echo "Sending MCP commands..."
@@ -23,24 +41,30 @@ echo
 bun src/index.ts --stdio < mcp_test_commands.json | while IFS= read -r line; do
     if [[ $line == *"\"method\":"* ]]; then
         echo ">>> Server response: $line"
+    elif [[ $line == *"\"id\":10"* ]]; then
+        echo "🔧 Tools Page 2 (expect multiply_numbers): $line"
+    elif [[ $line == *"\"id\":11"* ]]; then
+        echo "🔧 Tools Tampered Cursor (expect -32602): $line"
+    elif [[ $line == *"\"id\":12"* ]]; then
+        echo "🔧 Tools Expired Cursor (expect -32602): $line"
     elif [[ $line == *"\"id\":1"* ]]; then
         echo "✅ Initialization: $line"
     elif [[ $line == *"\"id\":2"* ]]; then
         echo "🔧 Tools Page 1: $line"
     elif [[ $line == *"\"id\":3"* ]]; then
-        echo "🔧 Tools Page 2: $line"
+        echo "🔧 Tools Invalid Cursor (expect -32602): $line"
     elif [[ $line == *"\"id\":4"* ]]; then
         echo "📁 Resources Page 1: $line"
     elif [[ $line == *"\"id\":5"* ]]; then
-        echo "📁 Resources Page 2: $line"
+        echo "📁 Resources Invalid Cursor (expect -32602): $line"
     elif [[ $line == *"\"id\":6"* ]]; then
         echo "💬 Prompts Page 1: $line"
     elif [[ $line == *"\"id\":7"* ]]; then
-        echo "💬 Prompts Page 2: $line"
+        echo "💬 Prompts Invalid Cursor (expect -32602): $line"
     elif [[ $line == *"\"id\":8"* ]]; then
         echo "🔗 Resource Templates Page 1: $line"
     elif [[ $line == *"\"id\":9"* ]]; then
-        echo "🔗 Resource Templates Page 2: $line"
+        echo "🔗 Resource Templates Invalid Cursor (expect -32602): $line"
     elif [[ -n "$line" ]]; then
         echo "📄 Response: $line"
     fi
@@ -0,0 +1,59 @@
+import type { Express, RequestHandler } from "express";
+import { metadataHandler } from "@modelcontextprotocol/sdk/server/auth/handlers/metadata.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import {
+  getOAuthProtectedResourceMetadataUrl,
+  mcpAuthRouter,
+} from "@modelcontextprotocol/sdk/server/auth/router.js";
+
+import { InMemoryOAuthProvider } from "./provider.js";
+import { requireToolScopes, SUPPORTED_SCOPES } from "./scopes.js";
+
+/**
+ * Mounts a local OAuth 2.1 authorization server (metadata, dynamic client
+ * registration, authorize, token and revocation endpoints) on the app and
+ * returns the middleware chain that protects the MCP endpoints.
+ *
+ * @param accessTokenLifetime - Access token lifetime in seconds
+ */
+export function setupAuth(
+  app: Express,
+  baseUrl: URL,
+  accessTokenLifetime?: number
+): RequestHandler[] {
+  const provider = new InMemoryOAuthProvider(accessTokenLifetime);
+  const mcpUrl = new URL("/mcp", baseUrl);
+
+  app.use(
+    mcpAuthRouter({
+      provider,
+      issuerUrl: baseUrl,
+      resourceServerUrl: mcpUrl,
+      scopesSupported: SUPPORTED_SCOPES,
+      resourceName: "typescript-mcp fixture server",
+      // Specs hit these endpoints far more often than a real client would
+      authorizationOptions: { rateLimit: false },
+      clientRegistrationOptions: { rateLimit: false },
+      tokenOptions: { rateLimit: false },
+      revocationOptions: { rateLimit: false },
+    })
+  );
+
+  // The SDK only serves the path-specific document (/.well-known/oauth-protected-resource/mcp),
+  // also serve it at the root for clients that only try the origin
+  app.use(
+    "/.well-known/oauth-protected-resource",
+    metadataHandler({
+      resource: mcpUrl.href,
+      authorization_servers: [baseUrl.href],
+      scopes_supported: SUPPORTED_SCOPES,
+      resource_name: "typescript-mcp fixture server",
+    })
+  );
+
+  const resourceMetadataUrl = getOAuthProtectedResourceMetadataUrl(mcpUrl);
+  return [
+    requireBearerAuth({ verifier: provider, resourceMetadataUrl }),
+    requireToolScopes(resourceMetadataUrl),
+  ];
+}
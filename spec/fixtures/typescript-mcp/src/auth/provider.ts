@@ -0,0 +1,243 @@
+import { randomUUID } from "node:crypto";
+import type { Response } from "express";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import {
+  InvalidGrantError,
+  InvalidScopeError,
+  InvalidTokenError,
+} from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import type {
+  AuthorizationParams,
+  OAuthServerProvider,
+} from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type {
+  OAuthClientInformationFull,
+  OAuthTokenRevocationRequest,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+
+import { DEFAULT_SCOPES, SUPPORTED_SCOPES } from "./scopes.js";
+
+interface AuthorizationCode {
+  clientId: string;
+  params: AuthorizationParams;
+}
+
+// Every token issued from one authorization code belongs to the same grant, so
+// revoking the grant (or detecting refresh token reuse) invalidates all of them
+interface Grant {
+  clientId: string;
+  scopes: string[];
+  resource?: URL;
+  revoked: boolean;
+}
+
+interface AccessToken {
+  grantId: string;
+  scopes: string[];
+  expiresAt: number;
+}
+
+interface RefreshToken {
+  grantId: string;
+  scopes: string[];
+  rotated: boolean;
+}
+
+// Only scopes this server knows about can be granted
+function assertSupportedScopes(scopes: string[] | undefined) {
+  const unsupported = scopes?.filter((scope) => !SUPPORTED_SCOPES.includes(scope)) ?? [];
+  if (unsupported.length > 0) {
+    throw new InvalidScopeError(`Unsupported scopes: ${unsupported.join(" ")}`);
+  }
+}
+
+export class InMemoryClientsStore implements OAuthRegisteredClientsStore {
+  private clients = new Map<string, OAuthClientInformationFull>();
+
+  async getClient(clientId: string) {
+    return this.clients.get(clientId);
+  }
+
+  async registerClient(client: OAuthClientInformationFull) {
+    this.clients.set(client.client_id, client);
+    return client;
+  }
+}
+
+/**
+ * Local authorization server used by `--auth` mode. Authorization requests are
+ * approved immediately (there is no consent screen) so the full OAuth flow can
+ * run unattended in CI. PKCE is verified by the SDK's token handler using
+ * `challengeForAuthorizationCode`.
+ *
+ * Refresh tokens are single use: each refresh returns a new refresh token, and
+ * presenting an already rotated one revokes every token in its grant.
+ */
+export class InMemoryOAuthProvider implements OAuthServerProvider {
+  readonly clientsStore = new InMemoryClientsStore();
+
+  private codes = new Map<string, AuthorizationCode>();
+  private grants = new Map<string, Grant>();
+  private accessTokens = new Map<string, AccessToken>();
+  private refreshTokens = new Map<string, RefreshToken>();
+
+  /**
+   * @param accessTokenLifetime - Access token lifetime in seconds
+   */
+  constructor(private readonly accessTokenLifetime = 3600) {}
+
+  async authorize(
+    client: OAuthClientInformationFull,
+    params: AuthorizationParams,
+    res: Response
+  ): Promise<void> {
+    assertSupportedScopes(params.scopes);
+
+    const code = randomUUID();
+    this.codes.set(code, { clientId: client.client_id, params });
+
+    const redirectUrl = new URL(params.redirectUri);
+    redirectUrl.searchParams.set("code", code);
+    if (params.state !== undefined) {
+      redirectUrl.searchParams.set("state", params.state);
+    }
+
+    res.redirect(302, redirectUrl.href);
+  }
+
+  async challengeForAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string
+  ): Promise<string> {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.clientId !== client.client_id) {
+      throw new InvalidGrantError("Invalid authorization code");
+    }
+
+    return code.params.codeChallenge;
+  }
+
+  async exchangeAuthorizationCode(
+    client: OAuthClientInformationFull,
+    authorizationCode: string,
+    _codeVerifier?: string,
+    redirectUri?: string
+  ): Promise<OAuthTokens> {
+    const code = this.codes.get(authorizationCode);
+    if (!code || code.clientId !== client.client_id) {
+      throw new InvalidGrantError("Invalid authorization code");
+    }
+    if (redirectUri && redirectUri !== code.params.redirectUri) {
+      throw new InvalidGrantError("redirect_uri does not match authorization request");
+    }
+    assertSupportedScopes(code.params.scopes);
+
+    // Authorization codes are single use
+    this.codes.delete(authorizationCode);
+
+    const grantId = randomUUID();
+    const scopes = code.params.scopes?.length ? code.params.scopes : DEFAULT_SCOPES;
+    this.grants.set(grantId, {
+      clientId: client.client_id,
+      scopes,
+      resource: code.params.resource,
+      revoked: false,
+    });
+
+    return this.issueTokens(grantId, scopes);
+  }
+
+  async exchangeRefreshToken(
+    client: OAuthClientInformationFull,
+    refreshToken: string,
+    scopes?: string[]
+  ): Promise<OAuthTokens> {
+    const stored = this.refreshTokens.get(refreshToken);
+    const grant = stored && this.grants.get(stored.grantId);
+    if (!stored || !grant || grant.clientId !== client.client_id) {
+      throw new InvalidGrantError("Invalid refresh token");
+    }
+    if (grant.revoked) {
+      throw new InvalidGrantError("Refresh token has been revoked");
+    }
+    if (stored.rotated) {
+      // A rotated refresh token showing up again means it leaked; kill the whole grant
+      grant.revoked = true;
+      throw new InvalidGrantError("Refresh token has already been used");
+    }
+
+    // A refresh may narrow the scopes of the token it replaces, never widen them
+    const requestedScopes = scopes?.length ? scopes : stored.scopes;
+    const extraScopes = requestedScopes.filter((scope) => !stored.scopes.includes(scope));
+    if (extraScopes.length > 0) {
+      throw new InvalidScopeError(
+        `Scopes not granted to this refresh token: ${extraScopes.join(" ")}`
+      );
+    }
+
+    stored.rotated = true;
+    return this.issueTokens(stored.grantId, requestedScopes);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const stored = this.accessTokens.get(token);
+    const grant = stored && this.grants.get(stored.grantId);
+    if (!stored || !grant) {
+      throw new InvalidTokenError("Invalid access token");
+    }
+    if (grant.revoked) {
+      throw new InvalidTokenError("Token has been revoked");
+    }
+    if (stored.expiresAt < Date.now() / 1000) {
+      throw new InvalidTokenError("Token has expired");
+    }
+
+    return {
+      token,
+      clientId: grant.clientId,
+      scopes: stored.scopes,
+      expiresAt: stored.expiresAt,
+      resource: grant.resource,
+    };
+  }
+
+  async revokeToken(
+    client: OAuthClientInformationFull,
+    request: OAuthTokenRevocationRequest
+  ): Promise<void> {
+    const stored =
+      this.refreshTokens.get(request.token) || this.accessTokens.get(request.token);
+    const grant = stored && this.grants.get(stored.grantId);
+
+    // Unknown tokens and tokens of other clients are ignored, as RFC 7009 requires
+    if (!grant || grant.clientId !== client.client_id) return;
+
+    if (this.refreshTokens.has(request.token)) {
+      grant.revoked = true;
+    } else {
+      this.accessTokens.delete(request.token);
+    }
+  }
+
+  private issueTokens(grantId: string, scopes: string[]): OAuthTokens {
+    const accessToken = randomUUID();
+    this.accessTokens.set(accessToken, {
+      grantId,
+      scopes,
+      expiresAt: Math.floor(Date.now() / 1000) + this.accessTokenLifetime,
+    });
+
+    const refreshToken = randomUUID();
+    this.refreshTokens.set(refreshToken, { grantId, scopes, rotated: false });
+
+    return {
+      access_token: accessToken,
+      token_type: "bearer",
+      expires_in: this.accessTokenLifetime,
+      scope: scopes.join(" "),
+      refresh_token: refreshToken,
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import type { RequestHandler } from "express";
+import { InsufficientScopeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+
+export const SUPPORTED_SCOPES = ["read", "write", "admin"];
+
+// Granted when the authorization request doesn't ask for any scope
+export const DEFAULT_SCOPES = ["read"];
+
+// Tools that need more than the default scope. Calling one of these with a
+// token that lacks the scope fails with `403 insufficient_scope`, which is
+// the client's cue to step up authorization.
+export const TOOL_SCOPES: Record<string, string> = {
+  upgrade_auth: "write",
+  put_message: "write",
+};
+
+/**
+ * Middleware for the MCP endpoint that inspects `tools/call` requests and
+ * rejects them when the bearer token lacks the tool's required scope. Must run
+ * after `requireBearerAuth`, which populates `req.auth`.
+ */
+export function requireToolScopes(resourceMetadataUrl: string): RequestHandler {
+  return (req, res, next) => {
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    const grantedScopes = req.auth?.scopes || [];
+
+    for (const message of messages) {
+      if (message?.method !== "tools/call") continue;
+
+      const requiredScope = TOOL_SCOPES[message.params?.name];
+      if (!requiredScope || grantedScopes.includes(requiredScope)) continue;
+
+      const error = new InsufficientScopeError(
+        `Tool ${message.params.name} requires the ${requiredScope} scope`
+      );
+      res.set(
+        "WWW-Authenticate",
+        `Bearer error="${error.errorCode}", error_description="${error.message}", scope="${requiredScope}", resource_metadata="${resourceMetadataUrl}"`
+      );
+      res.status(403).json(error.toResponseObject());
+      return;
+    }
+
+    next();
+  };
+}
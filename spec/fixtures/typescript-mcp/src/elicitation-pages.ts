@@ -0,0 +1,103 @@
+import express, { type Express } from "express";
+import { randomUUID } from "node:crypto";
+
+export type PageOutcome = "completed" | "cancelled";
+
+interface OpenPage {
+  message: string;
+  finish: (outcome: PageOutcome) => void;
+}
+
+// Pages waiting for the user, by elicitation id
+const openPages = new Map<string, OpenPage>();
+let pagesBaseUrl: URL | undefined;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html><html><head><title>${escapeHtml(title)}</title></head><body>${body}</body></html>`;
+}
+
+/**
+ * Serves the out-of-band pages behind URL-mode elicitation. Each page shows
+ * the elicitation message with Complete and Cancel buttons; submitting it
+ * settles the matching openElicitationPage() call.
+ */
+export function setupElicitationPages(app: Express, baseUrl: URL) {
+  pagesBaseUrl = baseUrl;
+
+  app.get("/elicitation/:id", (req, res) => {
+    const open = openPages.get(req.params.id);
+    if (!open) {
+      res.status(404).send(page("Not found", "<p>This request has expired or was already answered.</p>"));
+      return;
+    }
+
+    res.send(
+      page(
+        "Complete request",
+        `<p>${escapeHtml(open.message)}</p>
+<form method="post">
+  <button name="action" value="complete">Complete</button>
+  <button name="action" value="cancel">Cancel</button>
+</form>`
+      )
+    );
+  });
+
+  app.post(
+    "/elicitation/:id",
+    express.urlencoded({ extended: false }),
+    (req, res) => {
+      const open = openPages.get(req.params.id);
+      if (!open) {
+        res.status(404).send(page("Not found", "<p>This request has expired or was already answered.</p>"));
+        return;
+      }
+
+      const outcome: PageOutcome = req.body?.action === "cancel" ? "cancelled" : "completed";
+      open.finish(outcome);
+      res.send(page("Done", `<p>Request ${outcome}. You can close this page.</p>`));
+    }
+  );
+}
+
+/**
+ * Opens a page for a URL-mode elicitation. Returns undefined when the pages
+ * aren't being served (stdio mode). `outcome` settles once the user submits
+ * the page; `close` drops the page if nobody is waiting on it any more.
+ */
+export function openElicitationPage(message: string):
+  | {
+      elicitationId: string;
+      url: string;
+      outcome: Promise<PageOutcome>;
+      close: () => void;
+    }
+  | undefined {
+  if (!pagesBaseUrl) return undefined;
+
+  const elicitationId = randomUUID();
+  const outcome = new Promise<PageOutcome>((resolve) => {
+    openPages.set(elicitationId, {
+      message,
+      finish: (result) => {
+        openPages.delete(elicitationId);
+        resolve(result);
+      },
+    });
+  });
+
+  return {
+    elicitationId,
+    url: new URL(`/elicitation/${elicitationId}`, pagesBaseUrl).href,
+    outcome,
+    close: () => openPages.delete(elicitationId),
+  };
+}
@@ -0,0 +1,112 @@
+import { appendFileSync, existsSync, readFileSync } from "node:fs";
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store used by the Streamable HTTP transport for resumability.
+ * Events are kept in insertion order per stream so a client reconnecting with
+ * `Last-Event-ID` gets every message it missed, in the order they were sent.
+ */
+export class InMemoryEventStore implements EventStore {
+  protected streams = new Map<StreamId, StoredEvent[]>();
+  protected eventIndex = new Map<EventId, StoredEvent>();
+  private sequence = 0;
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence += 1;
+    const event: StoredEvent = {
+      eventId: `${streamId}_${String(this.sequence).padStart(10, "0")}`,
+      streamId,
+      message,
+    };
+
+    this.remember(event);
+    return event.eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.eventIndex.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const lastEvent = this.eventIndex.get(lastEventId);
+    if (!lastEvent) {
+      return "";
+    }
+
+    const events = this.streams.get(lastEvent.streamId) || [];
+    const position = events.findIndex((event) => event.eventId === lastEventId);
+
+    for (const event of events.slice(position + 1)) {
+      // Priming events carry an empty message and are never replayed
+      if (Object.keys(event.message).length === 0) continue;
+      await send(event.eventId, event.message);
+    }
+
+    return lastEvent.streamId;
+  }
+
+  protected remember(event: StoredEvent) {
+    const events = this.streams.get(event.streamId) || [];
+    events.push(event);
+    this.streams.set(event.streamId, events);
+    this.eventIndex.set(event.eventId, event);
+
+    const sequence = Number(event.eventId.split("_").pop());
+    if (sequence > this.sequence) {
+      this.sequence = sequence;
+    }
+  }
+}
+
+/**
+ * Event store that also appends every event to a JSON lines file, so events
+ * survive a server restart and can be inspected after a spec run
+ */
+export class FileEventStore extends InMemoryEventStore {
+  constructor(private readonly path: string) {
+    super();
+
+    if (existsSync(path)) {
+      const lines = readFileSync(path, "utf-8").split("\n").filter(Boolean);
+      for (const line of lines) {
+        this.remember(JSON.parse(line) as StoredEvent);
+      }
+    }
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = await super.storeEvent(streamId, message);
+    appendFileSync(
+      this.path,
+      JSON.stringify({ eventId, streamId, message }) + "\n"
+    );
+    return eventId;
+  }
+}
+
+/**
+ * Builds the event store for the HTTP server. Set `EVENT_STORE_PATH` (or pass
+ * `--event-store <path>`) to persist events to disk instead of memory.
+ */
+export function createEventStore(): EventStore {
+  const flagIndex = process.argv.indexOf("--event-store");
+  const path =
+    (flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined) ||
+    process.env.EVENT_STORE_PATH;
+
+  return path ? new FileEventStore(path) : new InMemoryEventStore();
+}
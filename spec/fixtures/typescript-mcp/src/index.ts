@@ -2,18 +2,31 @@ import express from "express";
 import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
 import { setupTools } from "./tools/index.js";
+import { bypassOutputValidation } from "./tools/protocol-2025-06-18.js";
 import { setupResources } from "./resources/index.js";
 import { setupPrompts } from "./prompts/index.js";
 import { registerLogging } from "./logging.js";
 import { registerTaskProtocolHandlers } from "./tasks/protocol.js";
+import { registerTaskAugmentedToolCalls } from "./tasks/tool-calls.js";
+import { createEventStore } from "./event-store.js";
+import { setupAuth } from "./auth/index.js";
+import { setupElicitationPages } from "./elicitation-pages.js";
 
 // Check for silent flag
 const isSilent =
   process.argv.includes("--silent") || process.env.SILENT === "true";
 
+// Check for auth flag - protects the MCP endpoints with a local OAuth server
+const isAuthEnabled =
+  process.argv.includes("--auth") || process.env.AUTH === "true";
+
+const PORT = Number(process.env.PORT) || 3005;
+const HOST = process.env.HOST || "0.0.0.0";
+
 // Conditional logging function
 const log = (...args: any[]) => {
   if (!isSilent) {
@@ -197,9 +210,29 @@ app.use((req, res, next) => {
   next();
 });
 
+if (isAuthEnabled) {
+  const issuerUrl = new URL(
+    process.env.AUTH_ISSUER_URL || `http://localhost:${PORT}`
+  );
+  // Anything but a positive number of seconds falls back to the provider's
+  // default; NaN would otherwise make every token immortal
+  const ttl = Number(process.env.AUTH_TOKEN_TTL);
+  const accessTokenLifetime = Number.isFinite(ttl) && ttl > 0 ? ttl : undefined;
+  if (process.env.AUTH_TOKEN_TTL && accessTokenLifetime === undefined) {
+    console.error(
+      `Ignoring invalid AUTH_TOKEN_TTL "${process.env.AUTH_TOKEN_TTL}", using the default`
+    );
+  }
+  const requireAuth = setupAuth(app, issuerUrl, accessTokenLifetime);
+  app.use(["/mcp", "/sse", "/messages"], requireAuth);
+}
+
 // Store transports for session management
 const transports: Record<string, StreamableHTTPServerTransport> = {};
 
+// Shared event store so clients can resume dropped SSE streams via Last-Event-ID
+const eventStore = createEventStore();
+
 // Function to create a new server instance
 function createServer(): McpServer {
   const server = new McpServer(
@@ -227,6 +260,11 @@ function createServer(): McpServer {
     }
   );
 
+  // These wrap the tool handlers McpServer installs, so they go before any
+  // tool; the task wrapper goes first so it also covers the bypassed calls
+  registerTaskAugmentedToolCalls(server);
+  bypassOutputValidation(server);
+
   // Setup tools, resources, notifications, and prompts
   setupTools(server);
   setupResources(server);
@@ -267,6 +305,8 @@ app.all("/mcp", async (req, res) => {
     // Create new transport for new session
     transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => randomUUID(),
+      eventStore,
+      retryInterval: 100,
       onsessioninitialized: (sessionId) => {
         transports[sessionId] = transport;
       },
@@ -288,6 +328,42 @@ app.all("/mcp", async (req, res) => {
   await transport.handleRequest(req, res, req.body);
 });
 
+// Store legacy HTTP+SSE transports (2024-11-05) by session ID
+const sseTransports: Record<string, SSEServerTransport> = {};
+
+// Legacy SSE endpoint - opens the event stream and announces the /messages endpoint
+app.get("/sse", async (req, res) => {
+  const transport = new SSEServerTransport("/messages", res);
+  sseTransports[transport.sessionId] = transport;
+
+  res.on("close", () => {
+    delete sseTransports[transport.sessionId];
+  });
+
+  const server = createServer();
+  await server.connect(transport);
+});
+
+// Legacy SSE message endpoint - receives client messages for an open /sse stream
+app.post("/messages", async (req, res) => {
+  const sessionId = req.query.sessionId as string;
+  const transport = sseTransports[sessionId];
+
+  if (!transport) {
+    res.status(400).json({
+      jsonrpc: "2.0",
+      error: {
+        code: -32000,
+        message: `No SSE session found for sessionId: ${sessionId}`,
+      },
+      id: req.body?.id ?? null,
+    });
+    return;
+  }
+
+  await transport.handlePostMessage(req, res, req.body);
+});
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({ status: "healthy", timestamp: new Date().toISOString() });
@@ -308,11 +384,19 @@ if (process.argv.includes("--stdio")) {
     process.exit(1);
   });
 } else {
-  const PORT = Number(process.env.PORT) || 3005;
-  const HOST = process.env.HOST || "0.0.0.0";
+  // Pages behind URL-mode elicitation; only reachable when serving HTTP
+  setupElicitationPages(
+    app,
+    new URL(process.env.PUBLIC_URL || `http://localhost:${PORT}`)
+  );
+
   app.listen(PORT, HOST, () => {
     log(`🚀 MCP Streamable server running on ${HOST}:${PORT}`);
     log(`📡 Endpoint: http://${HOST}:${PORT}/mcp`);
+    log(`📼 Legacy SSE: http://${HOST}:${PORT}/sse`);
+    if (isAuthEnabled) {
+      log(`🔐 OAuth: http://${HOST}:${PORT}/.well-known/oauth-authorization-server`);
+    }
     log(`❤️  Health Check: http://${HOST}:${PORT}/health`);
   });
 }
@@ -2,33 +2,34 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
-type LogLevel =
-  | "info"
-  | "error"
+export type LogLevel =
   | "debug"
+  | "info"
   | "notice"
   | "warning"
+  | "error"
   | "critical"
   | "alert"
   | "emergency";
 
+// RFC 5424 severities, least to most severe
 const loggingLevels = {
-  info: 0,
-  error: 1,
-  debug: 2,
-  notice: 3,
-  warning: 4,
+  debug: 0,
+  info: 1,
+  notice: 2,
+  warning: 3,
+  error: 4,
   critical: 5,
   alert: 6,
   emergency: 7,
 };
 
-const LogLevelSchema = z.enum([
-  "info",
-  "error",
+export const LogLevelSchema = z.enum([
   "debug",
+  "info",
   "notice",
   "warning",
+  "error",
   "critical",
   "alert",
   "emergency",
@@ -41,7 +42,11 @@ const LoggingSetLevelSchema = z.object({
   }),
 });
 
-let logLevel = "info" as LogLevel;
+const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+// Each HTTP session gets its own Server instance, so keying the level by server
+// keeps one client's logging/setLevel from changing what other clients receive
+const sessionLogLevels = new WeakMap<Server, LogLevel>();
 
 export function registerLogging(server: McpServer) {
   const rawServer = server.server;
@@ -53,16 +58,16 @@ export function registerLogging(server: McpServer) {
       throw new Error(`Invalid log level: ${level}`);
     }
 
-    // Update the current log level
-    logLevel = level;
+    // Update the log level for this session only
+    sessionLogLevels.set(rawServer, level);
 
     // Respond with an empty result to acknowledge the change
     return {};
   });
 }
 
-function shouldLog(level: LogLevel) {
-  if (loggingLevels[level] >= loggingLevels[logLevel]) {
+function shouldLog(server: Server, level: LogLevel) {
+  if (loggingLevels[level] >= loggingLevels[getCurrentLogLevel(server)]) {
     return true;
   }
   return false;
@@ -70,9 +75,11 @@ function shouldLog(level: LogLevel) {
 
 export function logger(server: Server) {
   return {
-    logLevel,
+    get logLevel() {
+      return getCurrentLogLevel(server);
+    },
     log: (message: string, level: LogLevel, logger: string) => {
-      if (shouldLog(level)) {
+      if (shouldLog(server, level)) {
         server.sendLoggingMessage({
           level: level,
           logger: logger || "mcp",
@@ -82,8 +89,17 @@ export function logger(server: Server) {
         });
       }
     },
+    logData: (data: unknown, level: LogLevel, logger: string) => {
+      if (shouldLog(server, level)) {
+        server.sendLoggingMessage({
+          level: level,
+          logger: logger || "mcp",
+          data,
+        });
+      }
+    },
     setLogLevel: (level: string) => {
-      logLevel = level as LogLevel;
+      sessionLogLevels.set(server, level as LogLevel);
     },
   };
 }
@@ -91,7 +107,7 @@ export function logger(server: Server) {
 /**
  * Unified logging function that works for both stdio and streamable transports
  * @param server - The raw MCP server instance
- * @param message - The message to log
+ * @param message - The message to log, sent as `{ message }`
  * @param level - The log level
  * @param loggerName - The logger name (defaults to "mcp")
  * @param sendNotification - Optional sendNotification function from tool execution context (for streamable transport)
@@ -103,8 +119,27 @@ export async function logMessage(
   loggerName: string = "mcp",
   sendNotification?: (notification: any) => Promise<void>
 ) {
-  // Only log if the level meets the threshold
-  if (!shouldLog(level)) {
+  await logData(server, { message }, level, loggerName, sendNotification);
+}
+
+/**
+ * Like `logMessage`, but sends any JSON value (object, array, string, ...) as
+ * the notification's `data` unchanged
+ * @param server - The raw MCP server instance
+ * @param data - The structured payload to log
+ * @param level - The log level
+ * @param loggerName - The logger name (defaults to "mcp")
+ * @param sendNotification - Optional sendNotification function from tool execution context (for streamable transport)
+ */
+export async function logData(
+  server: Server,
+  data: unknown,
+  level: LogLevel,
+  loggerName: string = "mcp",
+  sendNotification?: (notification: any) => Promise<void>
+) {
+  // Only log if the level meets the calling session's threshold
+  if (!shouldLog(server, level)) {
     return;
   }
 
@@ -115,9 +150,7 @@ export async function logMessage(
       params: {
         level: level,
         logger: loggerName,
-        data: {
-          message: message,
-        },
+        data,
       },
     });
   } else {
@@ -125,23 +158,21 @@ export async function logMessage(
     server.sendLoggingMessage({
       level: level,
       logger: loggerName,
-      data: {
-        message: message,
-      },
+      data,
     });
   }
 }
 
 /**
- * Get the current log level
+ * Get the current log level for a session's server
  */
-export function getCurrentLogLevel(): LogLevel {
-  return logLevel;
+export function getCurrentLogLevel(server: Server): LogLevel {
+  return sessionLogLevels.get(server) || DEFAULT_LOG_LEVEL;
 }
 
 /**
- * Check if a message should be logged at the given level
+ * Check if a message should be logged at the given level for a session's server
  */
-export function shouldLogLevel(level: LogLevel): boolean {
-  return shouldLog(level);
+export function shouldLogLevel(server: Server, level: LogLevel): boolean {
+  return shouldLog(server, level);
 }
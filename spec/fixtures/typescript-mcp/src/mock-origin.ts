@@ -0,0 +1,143 @@
+import express from "express";
+import { readFileSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+
+/**
+ * A local stand-in for the web, used by `fetch_site` so the fixture never
+ * needs network access. The host the tool was asked for travels in
+ * `X-Original-Host`, which lets one origin serve pages for several sites.
+ *
+ * - `/<path>`: a configured page (see DEFAULT_PAGES and `MOCK_ORIGIN_PAGES`)
+ * - `/redirect/:count`: a chain of `count` 302s ending at `/`
+ * - `/redirect-to?url=`: a single 302 to `url`
+ * - `/slow?ms=`: answers after `ms` milliseconds (default 2000)
+ * - `/status/:code`: answers with that status code
+ * - `/large?bytes=`: a page of roughly `bytes` characters (default 1 MB)
+ * - `/headers`: echoes the request headers
+ */
+
+interface MockPage {
+  status?: number;
+  contentType?: string;
+  body: string;
+}
+
+const EXAMPLE_DOMAIN_PAGE =
+  '<!doctype html><html lang="en"><head><title>Example Domain</title><meta name="viewport" content="width=device-width, initial-scale=1"><style>body{background:#eee;width:60vw;margin:15vh auto;font-family:system-ui,sans-serif}h1{font-size:1.5em}div{opacity:0.8}a:link,a:visited{color:#348}</style><body><div><h1>Example Domain</h1><p>This domain is for use in documentation examples without needing permission. Avoid use in operations.<p><a href="https://iana.org/domains/example">Learn more</a></div></body></html>';
+
+// Keyed by `host/path`, or by `path` alone to match any host
+const DEFAULT_PAGES: Record<string, MockPage> = {
+  "/": { body: EXAMPLE_DOMAIN_PAGE },
+  "/about": {
+    body: "<html><head><title>About</title><script>track()</script></head><body><h1>About us</h1><p>We build tools for testing MCP clients.</p></body></html>",
+  },
+  "/data.json": {
+    contentType: "application/json",
+    body: JSON.stringify({ status: "ok", items: [1, 2, 3] }),
+  },
+};
+
+// `MOCK_ORIGIN_PAGES` points at a JSON file of extra pages in the same shape
+// as DEFAULT_PAGES; a plain string value is shorthand for `{ body }`
+function loadPages(): Record<string, MockPage> {
+  const file = process.env.MOCK_ORIGIN_PAGES;
+  if (!file) return DEFAULT_PAGES;
+
+  const extra: Record<string, MockPage | string> = JSON.parse(
+    readFileSync(file, "utf-8")
+  );
+  const pages = { ...DEFAULT_PAGES };
+  for (const [key, page] of Object.entries(extra)) {
+    pages[key] = typeof page === "string" ? { body: page } : page;
+  }
+  return pages;
+}
+
+function createMockOrigin() {
+  const pages = loadPages();
+  const app = express();
+
+  app.get("/redirect/:count", (req, res) => {
+    const count = Number(req.params.count);
+    res.redirect(302, count > 1 ? `/redirect/${count - 1}` : "/");
+  });
+
+  app.get("/redirect-to", (req, res) => {
+    res.redirect(302, String(req.query.url || "/"));
+  });
+
+  app.get("/slow", (req, res) => {
+    const ms = Number(req.query.ms) || 2000;
+    const timer = setTimeout(() => {
+      res.send(`<html><body><p>Answered after ${ms}ms</p></body></html>`);
+    }, ms);
+    res.on("close", () => clearTimeout(timer));
+  });
+
+  app.get("/status/:code", (req, res) => {
+    const code = Number(req.params.code);
+    res
+      .status(code >= 100 && code <= 599 ? code : 500)
+      .send(`<html><body><p>Mock status ${code}</p></body></html>`);
+  });
+
+  app.get("/large", (req, res) => {
+    const bytes = Number(req.query.bytes) || 1024 * 1024;
+    const paragraph = "<p>Lorem ipsum dolor sit amet, consectetur adipiscing elit.</p>";
+    res.send(
+      `<html><body>${paragraph.repeat(Math.ceil(bytes / paragraph.length))}</body></html>`
+    );
+  });
+
+  app.get("/headers", (req, res) => {
+    const rows = Object.entries(req.headers)
+      .map(([name, value]) => `<li>${name}: ${value}</li>`)
+      .join("");
+    res.send(`<html><body><ul>${rows}</ul></body></html>`);
+  });
+
+  app.use((req, res) => {
+    const host = req.get("X-Original-Host");
+    const page = (host && pages[`${host}${req.path}`]) || pages[req.path];
+    if (!page) {
+      res.status(404).send("<html><body><p>Not Found</p></body></html>");
+      return;
+    }
+
+    res
+      .status(page.status ?? 200)
+      .type(page.contentType ?? "html")
+      .send(page.body);
+  });
+
+  return app;
+}
+
+let origin: Promise<string> | undefined;
+
+/**
+ * Base URL of the mock origin, started on first use. It listens on
+ * `MOCK_ORIGIN_PORT`, or on a free port when that isn't set, so several
+ * stdio fixtures can run side by side.
+ */
+export function mockOriginUrl(): Promise<string> {
+  origin ??= new Promise((resolve, reject) => {
+    const port = Number(process.env.MOCK_ORIGIN_PORT) || 0;
+    // Express calls this with the error when listening fails
+    const listener = createMockOrigin().listen(port, "127.0.0.1", (error?: Error) => {
+      if (error) {
+        // Let the next call try again, e.g. once the port is free
+        origin = undefined;
+        reject(error);
+        return;
+      }
+
+      const { port } = listener.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+    // Don't keep a stdio fixture alive just for this
+    listener.unref();
+  });
+
+  return origin;
+}
@@ -2,10 +2,14 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { setupTextResources } from "./text.js";
 import { setupMediaResources } from "./media.js";
 import { setupTemplateResources } from "./templates.js";
+import { registerResourceSubscriptions } from "./subscriptions.js";
+import { setupWatchedResources } from "./watched.js";
 
 export function setupResources(server: McpServer) {
   // Setup different categories of resources
   setupTextResources(server);
   setupMediaResources(server);
   setupTemplateResources(server);
+  setupWatchedResources(server);
+  registerResourceSubscriptions(server);
 }
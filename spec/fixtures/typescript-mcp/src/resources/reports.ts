@@ -0,0 +1,41 @@
+import { randomUUID } from "node:crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ResourceLink } from "@modelcontextprotocol/sdk/types.js";
+
+export interface Report {
+  title: string;
+  text: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Stores a report as a readable `report://` resource on the calling session
+ * and returns a `resource_link` block pointing at it. Registering the
+ * resource makes McpServer send `notifications/resources/list_changed`.
+ */
+export function storeReport(server: McpServer, report: Report): ResourceLink {
+  const name = `report-${randomUUID()}.${report.extension}`;
+  const uri = `report://${name}`;
+  const description = `Generated report: ${report.title}`;
+
+  server.resource(
+    name,
+    uri,
+    { description, mimeType: report.mimeType },
+    async (resourceUri) => ({
+      contents: [
+        { uri: resourceUri.href, text: report.text, mimeType: report.mimeType },
+      ],
+    })
+  );
+
+  return {
+    type: "resource_link",
+    uri,
+    name,
+    title: report.title,
+    description,
+    mimeType: report.mimeType,
+  };
+}
@@ -0,0 +1,76 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  type ServerNotification,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+// Every session gets its own Server instance, so subscribers are tracked per
+// server: resource URI -> servers (sessions) subscribed to it
+const subscribers = new Map<string, Set<Server>>();
+
+function unsubscribe(server: Server, uri: string) {
+  const servers = subscribers.get(uri);
+  if (!servers) return;
+
+  servers.delete(server);
+  if (servers.size === 0) subscribers.delete(uri);
+}
+
+export function registerResourceSubscriptions(server: McpServer) {
+  const rawServer = server.server;
+
+  rawServer.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const servers = subscribers.get(uri) || new Set<Server>();
+    servers.add(rawServer);
+    subscribers.set(uri, servers);
+    return {};
+  });
+
+  rawServer.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    unsubscribe(rawServer, request.params.uri);
+    return {};
+  });
+
+  // Forget a session's subscriptions once its connection goes away
+  const previousOnClose = rawServer.onclose;
+  rawServer.onclose = () => {
+    previousOnClose?.();
+    for (const uri of Array.from(subscribers.keys())) {
+      unsubscribe(rawServer, uri);
+    }
+  };
+}
+
+/**
+ * Sends `notifications/resources/updated` to every session subscribed to the
+ * URI, and to nobody else. Pass the calling server and its request-bound
+ * `sendNotification` to deliver the calling session's copy on the same
+ * stream as the response, ahead of it.
+ */
+export async function notifyResourceUpdated(
+  uri: string,
+  caller?: {
+    server: Server;
+    sendNotification: (notification: ServerNotification) => Promise<void>;
+  }
+) {
+  const servers = Array.from(subscribers.get(uri) || []);
+  await Promise.all(
+    servers.map((server) => {
+      const sent =
+        server === caller?.server
+          ? caller.sendNotification({
+              method: "notifications/resources/updated",
+              params: { uri },
+            })
+          : server.sendResourceUpdated({ uri });
+
+      return sent.catch(() => {
+        // The session may have gone away without a clean close; skip it
+      });
+    })
+  );
+}
@@ -0,0 +1,152 @@
+import { existsSync, readdirSync, statSync, watch } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  McpServer,
+  type RegisteredResource,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { notifyResourceUpdated } from "./subscriptions.js";
+
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".json": "application/json",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".wav": "audio/wav",
+};
+
+// Set `WATCH_DIR` (or pass `--watch-dir <path>`) to expose a directory's files
+function resolveWatchDir(): string | undefined {
+  const flagIndex = process.argv.indexOf("--watch-dir");
+  const dir =
+    (flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined) ||
+    process.env.WATCH_DIR;
+
+  return dir ? resolve(dir) : undefined;
+}
+
+const watchDir = resolveWatchDir();
+
+// Files currently exposed, and each connected session's registrations of them
+const knownFiles = new Set<string>();
+const sessions = new Map<McpServer, Map<string, RegisteredResource>>();
+let watching = false;
+
+function mimeTypeFor(name: string): string {
+  return MIME_TYPES[extname(name).toLowerCase()] || "application/octet-stream";
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || mimeType === "application/json";
+}
+
+function isFile(path: string): boolean {
+  return existsSync(path) && statSync(path).isFile();
+}
+
+function fileUri(name: string): string {
+  return pathToFileURL(join(watchDir!, name)).href;
+}
+
+function registerFile(
+  server: McpServer,
+  registered: Map<string, RegisteredResource>,
+  name: string
+) {
+  const path = join(watchDir!, name);
+  const mimeType = mimeTypeFor(name);
+
+  const resource = server.resource(
+    name,
+    fileUri(name),
+    {
+      description: `Watched file ${name}`,
+      mimeType,
+    },
+    async (uri) => {
+      const contents = await readFile(path);
+      return {
+        contents: [
+          isTextMimeType(mimeType)
+            ? { uri: uri.href, text: contents.toString("utf-8"), mimeType }
+            : { uri: uri.href, blob: contents.toString("base64"), mimeType },
+        ],
+      };
+    }
+  );
+
+  registered.set(name, resource);
+}
+
+// Registering or removing a resource makes McpServer send
+// notifications/resources/list_changed to that session on its own
+async function handleFileEvent(name: string) {
+  const exists = isFile(join(watchDir!, name));
+
+  if (exists && !knownFiles.has(name)) {
+    knownFiles.add(name);
+    for (const [server, registered] of sessions) {
+      registerFile(server, registered, name);
+    }
+  } else if (!exists && knownFiles.has(name)) {
+    knownFiles.delete(name);
+    for (const registered of sessions.values()) {
+      registered.get(name)?.remove();
+      registered.delete(name);
+    }
+  } else if (exists) {
+    await notifyResourceUpdated(fileUri(name));
+  }
+}
+
+function startWatching() {
+  if (watching) return;
+  watching = true;
+
+  for (const entry of readdirSync(watchDir!, { withFileTypes: true })) {
+    if (entry.isFile()) knownFiles.add(entry.name);
+  }
+
+  // Editors and fs.watch both fire several events per save; settle first
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const watcher = watch(watchDir!, (_event, filename) => {
+    if (!filename) return;
+    const name = filename.toString();
+
+    clearTimeout(pending.get(name));
+    pending.set(
+      name,
+      setTimeout(() => {
+        pending.delete(name);
+        void handleFileEvent(name);
+      }, 50)
+    );
+  });
+  // Don't keep a stdio fixture alive just for this
+  watcher.unref();
+}
+
+/**
+ * Exposes the top-level files of the watched directory as `file://`
+ * resources. Creating or deleting a file emits `list_changed`; editing one
+ * sends `notifications/resources/updated` to sessions subscribed to it.
+ */
+export function setupWatchedResources(server: McpServer) {
+  if (!watchDir) return;
+  startWatching();
+
+  const registered = new Map<string, RegisteredResource>();
+  sessions.set(server, registered);
+  for (const name of knownFiles) {
+    registerFile(server, registered, name);
+  }
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    previousOnClose?.();
+    sessions.delete(server);
+  };
+}
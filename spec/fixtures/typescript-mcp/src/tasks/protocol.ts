@@ -1,7 +1,8 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, RELATED_TASK_META_KEY } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
-import { taskStore } from "./task-store.js";
+import { isTerminalStatus, taskStore, type TaskRecord } from "./task-store.js";
 
 const ListTasksRequestSchema = z.object({
   method: z.literal("tasks/list"),
@@ -23,70 +24,107 @@ const CancelTaskRequestSchema = z.object({
   params: z.object({ taskId: z.string() }),
 });
 
+// A plain Error with a code goes out with its message as is; McpError would
+// have its "MCP error <code>:" prefix added a second time on the way out
+function taskError(code: number, message: string, data?: unknown): Error {
+  return Object.assign(new Error(message), { code, data });
+}
+
+function taskNotFound(taskId: string): Error {
+  return taskError(ErrorCode.InvalidParams, `Task not found: ${taskId}`);
+}
+
 export function registerTaskProtocolHandlers(server: McpServer) {
-  server.server.setRequestHandler(ListTasksRequestSchema, async () => {
-    return {
-      tasks: taskStore.listTasks(),
-    };
+  server.server.setRequestHandler(ListTasksRequestSchema, async (request, extra) => {
+    const cursor = request.params?.cursor;
+    const page = taskStore.listSessionTasks(extra.sessionId, cursor);
+    if (!page) {
+      throw taskError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    return { tasks: page.tasks, nextCursor: page.nextCursor };
   });
 
-  server.server.setRequestHandler(GetTaskRequestSchema, async (request) => {
-    const task = taskStore.getTask(request.params.taskId);
-    if (task) return task;
+  server.server.setRequestHandler(GetTaskRequestSchema, async (request, extra) => {
+    const task = taskStore.getSessionTask(request.params.taskId, extra.sessionId);
+    if (!task) throw taskNotFound(request.params.taskId);
 
-    return {
-      taskId: request.params.taskId,
-      status: "failed",
-      statusMessage: "Task not found",
-      createdAt: new Date().toISOString(),
-      lastUpdatedAt: new Date().toISOString(),
-      ttl: 0,
-    };
+    return task;
   });
 
-  server.server.setRequestHandler(GetTaskResultRequestSchema, async (request) => {
-    const task = taskStore.getTask(request.params.taskId);
-    const payload = taskStore.getTaskPayload(request.params.taskId);
+  server.server.setRequestHandler(GetTaskResultRequestSchema, async (request, extra) => {
+    const { taskId } = request.params;
+    if (!taskStore.getSessionTask(taskId, extra.sessionId)) {
+      throw taskNotFound(taskId);
+    }
+
+    // tasks/result blocks until the task finishes, as the spec requires
+    const task = await taskStore.waitForTerminalStatus(taskId);
+    if (!task) throw taskNotFound(taskId);
 
-    if (!task) {
-      return {
-        isError: true,
-        content: [{ type: "text", text: `Task not found: ${request.params.taskId}` }],
-      };
+    const error = taskStore.getTaskError(taskId);
+    if (error) {
+      // Re-raise with the original code and message
+      throw taskError(error.code, error.message, error.data);
     }
 
-    if (payload) return payload;
+    const payload = taskStore.getTaskPayload(taskId) || {
+      isError: true,
+      content: [{ type: "text", text: `Task ${task.status} without a result` }],
+    };
 
     return {
-      isError: true,
-      content: [{ type: "text", text: `Task is not complete: ${request.params.taskId}` }],
+      ...payload,
+      _meta: {
+        ...(payload._meta as Record<string, unknown> | undefined),
+        [RELATED_TASK_META_KEY]: { taskId },
+      },
     };
   });
 
-  server.server.setRequestHandler(CancelTaskRequestSchema, async (request) => {
-    const task = taskStore.setTaskStatus(
-      request.params.taskId,
-      "cancelled",
-      "Cancelled by client"
-    );
+  server.server.setRequestHandler(CancelTaskRequestSchema, async (request, extra) => {
+    const { taskId } = request.params;
+    const current = taskStore.getSessionTask(taskId, extra.sessionId);
+    if (!current) throw taskNotFound(taskId);
 
-    if (task) {
-      notifyTaskStatus(server, task);
-      return task;
+    if (isTerminalStatus(current.status)) {
+      throw taskError(
+        ErrorCode.InvalidParams,
+        `Cannot cancel task in terminal status: ${current.status}`
+      );
     }
 
-    return {
-      taskId: request.params.taskId,
-      status: "cancelled",
-      statusMessage: "Task not found; treated as cancelled",
-      createdAt: new Date().toISOString(),
-      lastUpdatedAt: new Date().toISOString(),
-      ttl: 0,
-    };
+    const task = taskStore.setTaskStatus(taskId, "cancelled", "Cancelled by client");
+    if (!task) throw taskNotFound(taskId);
+
+    notifyTaskStatus(server, task);
+    return task;
   });
 }
 
-export async function notifyTaskStatus(server: McpServer, task: Record<string, unknown>) {
+// The SDK's `relatedTask` option diverts messages to a task message queue
+// we don't run, so the related-task metadata is attached by hand instead
+export function relatedTaskMeta(taskId: string) {
+  return { [RELATED_TASK_META_KEY]: { taskId } };
+}
+
+export function withRelatedTask<T extends { params?: Record<string, any> }>(
+  message: T,
+  taskId: string
+): T {
+  return {
+    ...message,
+    params: {
+      ...message.params,
+      _meta: {
+        ...message.params?._meta,
+        ...relatedTaskMeta(taskId),
+      },
+    },
+  };
+}
+
+export async function notifyTaskStatus(server: McpServer, task: TaskRecord) {
   try {
     await server.server.notification({
       method: "notifications/tasks/status",
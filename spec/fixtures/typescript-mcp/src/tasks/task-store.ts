@@ -15,22 +15,51 @@ export interface TaskRecord {
   pollInterval?: number;
 }
 
+export interface TaskError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
 interface StoredTask {
   task: TaskRecord;
+  // Session that created the task; clients only ever see their own tasks.
+  // Undefined for stdio, which has a single implicit session.
+  sessionId?: string;
+  expiresAt: number;
   payload?: Record<string, unknown>;
+  error?: TaskError;
+  // Aborted when the task is cancelled or evicted, so its work stops too
+  controller: AbortController;
+}
+
+export interface TaskPage {
+  tasks: TaskRecord[];
+  nextCursor?: string;
+}
+
+const TERMINAL_STATUSES: MCPTaskStatus[] = ["completed", "failed", "cancelled"];
+
+export function isTerminalStatus(status: MCPTaskStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
 }
 
 export class TaskStore {
   private tasks = new Map<string, StoredTask>();
+  private waiters = new Map<string, Array<() => void>>();
+
+  constructor(private readonly pageSize = 10) {}
 
   createTask({
     taskId,
+    sessionId,
     status = "working",
     statusMessage,
     ttl = 60_000,
     pollInterval = 100,
   }: {
     taskId: string;
+    sessionId?: string;
     status?: MCPTaskStatus;
     statusMessage?: string;
     ttl?: number;
@@ -47,25 +76,78 @@ export class TaskStore {
       pollInterval,
     };
 
-    this.tasks.set(taskId, { task });
+    this.tasks.set(taskId, {
+      task,
+      sessionId,
+      expiresAt: Date.now() + ttl,
+      controller: new AbortController(),
+    });
+    // Evict on time too, so tasks/result waiters don't hang on an expired task
+    setTimeout(() => this.evictExpired(), ttl + 1).unref?.();
     return task;
   }
 
-  listTasks(): TaskRecord[] {
-    return Array.from(this.tasks.values()).map(({ task }) => task);
+  /**
+   * Lists one page of a session's tasks, oldest first. Cursors are opaque to
+   * clients; returns undefined when the cursor is malformed or points at a
+   * task that no longer exists.
+   */
+  listSessionTasks(sessionId: string | undefined, cursor?: string): TaskPage | undefined {
+    this.evictExpired();
+
+    const tasks = Array.from(this.tasks.values())
+      .filter((stored) => stored.sessionId === sessionId)
+      .map(({ task }) => task);
+
+    let start = 0;
+    if (cursor !== undefined) {
+      const after = decodeCursor(cursor);
+      const index = tasks.findIndex((task) => task.taskId === after);
+      if (index === -1) return undefined;
+      start = index + 1;
+    }
+
+    const page = tasks.slice(start, start + this.pageSize);
+    const hasMore = start + this.pageSize < tasks.length;
+
+    return {
+      tasks: page,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1].taskId) : undefined,
+    };
   }
 
   getTask(taskId: string): TaskRecord | undefined {
+    this.evictExpired();
     return this.tasks.get(taskId)?.task;
   }
 
+  /**
+   * Looks a task up on behalf of a client. Tasks created by other sessions
+   * are reported as missing so their IDs can't be probed.
+   */
+  getSessionTask(taskId: string, sessionId: string | undefined): TaskRecord | undefined {
+    this.evictExpired();
+    const stored = this.tasks.get(taskId);
+    if (!stored || stored.sessionId !== sessionId) return undefined;
+    return stored.task;
+  }
+
+  getTaskSignal(taskId: string): AbortSignal | undefined {
+    return this.tasks.get(taskId)?.controller.signal;
+  }
+
+  /**
+   * Moves a task to a new status. Terminal statuses are final: once a task
+   * has completed, failed or been cancelled, later updates are ignored and
+   * undefined is returned, so late work can't overwrite a cancellation.
+   */
   setTaskStatus(
     taskId: string,
     status: MCPTaskStatus,
     statusMessage?: string
   ): TaskRecord | undefined {
     const current = this.tasks.get(taskId);
-    if (!current) return undefined;
+    if (!current || isTerminalStatus(current.task.status)) return undefined;
 
     current.task = {
       ...current.task,
@@ -74,12 +156,23 @@ export class TaskStore {
       lastUpdatedAt: new Date().toISOString(),
     };
     this.tasks.set(taskId, current);
+
+    if (status === "cancelled") {
+      current.controller.abort(new Error(statusMessage || "Task cancelled"));
+    }
+
+    if (isTerminalStatus(status)) {
+      this.waiters.get(taskId)?.forEach((resolve) => resolve());
+      this.waiters.delete(taskId);
+    }
+
     return current.task;
   }
 
+  // Payloads and errors must be recorded before the task goes terminal
   setTaskPayload(taskId: string, payload: Record<string, unknown>): void {
     const current = this.tasks.get(taskId);
-    if (!current) return;
+    if (!current || isTerminalStatus(current.task.status)) return;
     current.payload = payload;
     this.tasks.set(taskId, current);
   }
@@ -87,6 +180,64 @@ export class TaskStore {
   getTaskPayload(taskId: string): Record<string, unknown> | undefined {
     return this.tasks.get(taskId)?.payload;
   }
+
+  // Records the JSON-RPC error the underlying request failed with, so
+  // tasks/result can return it instead of a result
+  setTaskError(taskId: string, error: TaskError): void {
+    const current = this.tasks.get(taskId);
+    if (!current || isTerminalStatus(current.task.status)) return;
+    current.error = error;
+    this.tasks.set(taskId, current);
+  }
+
+  getTaskError(taskId: string): TaskError | undefined {
+    return this.tasks.get(taskId)?.error;
+  }
+
+  /**
+   * Resolves once the task reaches a terminal status (or immediately if it
+   * already has one). Resolves with undefined for unknown tasks.
+   */
+  async waitForTerminalStatus(taskId: string): Promise<TaskRecord | undefined> {
+    const current = this.tasks.get(taskId);
+    if (!current) return undefined;
+    if (isTerminalStatus(current.task.status)) return current.task;
+
+    await new Promise<void>((resolve) => {
+      const waiters = this.waiters.get(taskId) || [];
+      waiters.push(resolve);
+      this.waiters.set(taskId, waiters);
+    });
+
+    return this.tasks.get(taskId)?.task;
+  }
+
+  // Drops tasks whose ttl (measured from creation) has run out, releasing
+  // anyone still waiting on them
+  private evictExpired() {
+    const now = Date.now();
+    for (const [taskId, stored] of this.tasks) {
+      if (stored.expiresAt > now) continue;
+
+      this.tasks.delete(taskId);
+      stored.controller.abort(new Error("Task expired"));
+      this.waiters.get(taskId)?.forEach((resolve) => resolve());
+      this.waiters.delete(taskId);
+    }
+  }
+}
+
+function encodeCursor(taskId: string): string {
+  return Buffer.from(JSON.stringify({ after: taskId })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): string | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    return typeof decoded?.after === "string" ? decoded.after : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
-export const taskStore = new TaskStore();
+export const taskStore = new TaskStore(Number(process.env.TASKS_PAGE_SIZE) || 10);
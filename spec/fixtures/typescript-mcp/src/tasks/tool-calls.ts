@@ -0,0 +1,140 @@
+import { randomUUID } from "node:crypto";
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  type CallToolRequest,
+  CallToolRequestSchema,
+  type CallToolResult,
+  type CreateTaskResult,
+  ErrorCode,
+  type ListToolsRequest,
+  ListToolsRequestSchema,
+  type ListToolsResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { notifyTaskStatus, withRelatedTask } from "./protocol.js";
+import { taskStore } from "./task-store.js";
+
+type ServerRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ListToolsHandler = (
+  request: ListToolsRequest,
+  extra: ServerRequestExtra
+) => ListToolsResult | Promise<ListToolsResult>;
+
+type CallToolHandler = (
+  request: CallToolRequest,
+  extra: ServerRequestExtra
+) => CallToolResult | CreateTaskResult | Promise<CallToolResult | CreateTaskResult>;
+
+// Task ids of the task-augmented calls in flight, by the task's signal
+const augmentedTaskIds = new WeakMap<AbortSignal, string>();
+
+/**
+ * The task a tool call is running under when it was task-augmented, or
+ * undefined for a plain call.
+ */
+export function augmentedTaskId(extra: ServerRequestExtra): string | undefined {
+  return augmentedTaskIds.get(extra.signal);
+}
+
+/**
+ * Makes every tool task-augmentable. A `tools/call` carrying `params.task`
+ * returns a CreateTaskResult straight away, while the tool runs in the
+ * background; its CallToolResult (or JSON-RPC error) is then available from
+ * `tasks/result`. Calls without `params.task` behave exactly as before.
+ *
+ * Must be called before the tools are registered: McpServer installs its
+ * `tools/list` and `tools/call` handlers with the first tool, and this keeps
+ * those handlers and installs wrapped ones in their place.
+ */
+export function registerTaskAugmentedToolCalls(server: McpServer) {
+  const rawServer = server.server;
+  const setRequestHandler = rawServer.setRequestHandler.bind(rawServer);
+
+  rawServer.setRequestHandler = (requestSchema, handler) => {
+    const schema: object = requestSchema;
+    if (schema === ListToolsRequestSchema) {
+      setRequestHandler(ListToolsRequestSchema, withTaskSupport(handler as ListToolsHandler));
+    } else if (schema === CallToolRequestSchema) {
+      setRequestHandler(
+        CallToolRequestSchema,
+        withTaskAugmentation(server, handler as CallToolHandler)
+      );
+    } else {
+      setRequestHandler(requestSchema, handler);
+    }
+  };
+}
+
+function withTaskSupport(listTools: ListToolsHandler): ListToolsHandler {
+  return async (request, extra) => {
+    const result = await listTools(request, extra);
+    return {
+      ...result,
+      tools: result.tools.map((tool) => ({
+        ...tool,
+        execution: { taskSupport: "optional" },
+      })),
+    };
+  };
+}
+
+function withTaskAugmentation(server: McpServer, callTool: CallToolHandler): CallToolHandler {
+  return async (request, extra) => {
+    const { task: taskParams, ...params } = request.params;
+    if (!taskParams) {
+      return callTool(request, extra);
+    }
+
+    const taskId = `task-${randomUUID()}`;
+    const task = taskStore.createTask({
+      taskId,
+      sessionId: extra.sessionId,
+      status: "working",
+      statusMessage: `Running tool ${params.name}`,
+      ttl: taskParams.ttl ?? undefined,
+      pollInterval: 50,
+    });
+    await notifyTaskStatus(server, task);
+
+    // The original request is answered before the tool finishes, so anything
+    // the tool sends afterwards goes out unbound from it, tagged with the task.
+    // Its signal is the task's, so tasks/cancel is what stops the tool.
+    const signal = taskStore.getTaskSignal(taskId) ?? extra.signal;
+    augmentedTaskIds.set(signal, taskId);
+    const taskExtra: ServerRequestExtra = {
+      ...extra,
+      signal,
+      sendNotification: (notification) =>
+        server.server.notification(withRelatedTask(notification, taskId)),
+      sendRequest: (req, resultSchema, options) =>
+        server.server.request(withRelatedTask(req, taskId), resultSchema, options),
+    };
+
+    Promise.resolve(callTool({ ...request, params }, taskExtra)).then(
+      (result) => {
+        taskStore.setTaskPayload(taskId, result);
+        const finished = result.isError
+          ? taskStore.setTaskStatus(taskId, "failed", "Tool returned an error")
+          : taskStore.setTaskStatus(taskId, "completed", "Tool completed");
+        if (finished) void notifyTaskStatus(server, finished);
+      },
+      (error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        taskStore.setTaskError(taskId, {
+          code: Number.isSafeInteger(error?.code) ? error.code : ErrorCode.InternalError,
+          message,
+          data: error?.data,
+        });
+        const failed = taskStore.setTaskStatus(taskId, "failed", message);
+        if (failed) void notifyTaskStatus(server, failed);
+      }
+    );
+
+    return { task };
+  };
+}
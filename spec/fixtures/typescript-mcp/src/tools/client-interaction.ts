@@ -5,6 +5,11 @@ export function setupClientInteractionTools(server: McpServer) {
     "client-capabilities",
     "Get the capabilities of the client and return them back",
     {},
+    {
+      title: "Show Client Capabilities",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({}) => {
       const result = await server.server.getClientCapabilities();
 
@@ -30,6 +35,11 @@ export function setupClientInteractionTools(server: McpServer) {
     "ping_client",
     "Sends a ping to the client to test connectivity",
     {},
+    {
+      title: "Ping Client",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({}) => {
       const result = await server.server.ping();
 
@@ -50,6 +60,11 @@ export function setupClientInteractionTools(server: McpServer) {
     "roots-test",
     "Test the roots list for a client",
     {},
+    {
+      title: "List Client Roots",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({}) => {
       try {
         const result = await server.server.listRoots();
@@ -80,59 +95,74 @@ export function setupClientInteractionTools(server: McpServer) {
     }
   );
 
-  server.tool("sampling-test", "Test the sampling tool", {}, async ({}) => {
-    try {
-      const result = await server.server.createMessage({
-        messages: [
-          {
-            role: "user" as const,
-            content: { type: "text" as const, text: "Hello, how are you?" },
+  server.tool(
+    "sampling-test",
+    "Test the sampling tool",
+    {},
+    {
+      title: "Sampling Test",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({}) => {
+      try {
+        const result = await server.server.createMessage({
+          messages: [
+            {
+              role: "user" as const,
+              content: { type: "text" as const, text: "Hello, how are you?" },
+            },
+          ],
+          model: "gpt-4o",
+          modelPreferences: {
+            hints: [{ name: "gemini-2.0-flash" }, { name: "gpt-4o" }],
+            costPriority: 1,
+            speedPriority: 1,
+            intelligencePriority: 1,
           },
-        ],
-        model: "gpt-4o",
-        modelPreferences: {
-          hints: [{ name: "gemini-2.0-flash" }, { name: "gpt-4o" }],
-          costPriority: 1,
-          speedPriority: 1,
-          intelligencePriority: 1,
-        },
-        systemPrompt: "You are a helpful assistant.",
-        maxTokens: 100,
-      });
+          systemPrompt: "You are a helpful assistant.",
+          maxTokens: 100,
+        });
 
-      if (result.isError) {
+        if (result.isError) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Sampling test failed: ${result.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
         return {
           content: [
             {
               type: "text" as const,
-              text: `Sampling test failed: ${result.error}`,
+              text: `Sampling test completed: ${JSON.stringify(result)}`,
             },
           ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            { type: "text" as const, text: `Sampling test failed: ${error}` },
+          ],
           isError: true,
         };
       }
-      return {
-        content: [
-          {
-            type: "text" as const,
-            text: `Sampling test completed: ${JSON.stringify(result)}`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          { type: "text" as const, text: `Sampling test failed: ${error}` },
-        ],
-        isError: true,
-      };
     }
-  });
+  );
 
   server.tool(
     "sample_with_cancellation",
     "Test cancellation by initiating a slow sampling request that can be cancelled",
     {},
+    {
+      title: "Cancellable Sampling Request",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({}) => {
       try {
         // Start a sampling request that will take time
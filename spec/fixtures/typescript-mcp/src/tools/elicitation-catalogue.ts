@@ -0,0 +1,352 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ElicitResultSchema,
+  type PrimitiveSchemaDefinition,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+interface CatalogueEntry {
+  properties: Record<string, PrimitiveSchemaDefinition>;
+  required: string[];
+}
+
+// One entry per primitive schema variant the elicitation spec allows. Every
+// property is flat (no nested objects) and carries a title and a default.
+const CATALOGUE: Record<string, CatalogueEntry> = {
+  string: {
+    properties: {
+      full_name: {
+        type: "string",
+        title: "Full name",
+        description: "As it appears on your ID",
+        minLength: 2,
+        maxLength: 50,
+        default: "Ada Lovelace",
+      },
+    },
+    required: ["full_name"],
+  },
+  formats: {
+    properties: {
+      email: { type: "string", title: "Email", format: "email", default: "ada@example.com" },
+      website: { type: "string", title: "Website", format: "uri", default: "https://example.com" },
+      birthday: { type: "string", title: "Birthday", format: "date", default: "1815-12-10" },
+      meeting_at: {
+        type: "string",
+        title: "Meeting time",
+        format: "date-time",
+        default: "2025-06-18T09:30:00Z",
+      },
+    },
+    required: ["email"],
+  },
+  number: {
+    properties: {
+      confidence: {
+        type: "number",
+        title: "Confidence",
+        description: "Between 0 and 1",
+        minimum: 0,
+        maximum: 1,
+        default: 0.5,
+      },
+    },
+    required: ["confidence"],
+  },
+  integer: {
+    properties: {
+      seats: {
+        type: "integer",
+        title: "Seats",
+        minimum: 1,
+        maximum: 10,
+        default: 2,
+      },
+    },
+    required: ["seats"],
+  },
+  boolean: {
+    properties: {
+      subscribe: {
+        type: "boolean",
+        title: "Subscribe to the newsletter",
+        default: false,
+      },
+    },
+    required: [],
+  },
+  enum: {
+    properties: {
+      color: {
+        type: "string",
+        title: "Favorite color",
+        enum: ["red", "green", "blue"],
+        default: "green",
+      },
+    },
+    required: ["color"],
+  },
+  titled_enum: {
+    properties: {
+      plan: {
+        type: "string",
+        title: "Plan",
+        oneOf: [
+          { const: "free", title: "Free" },
+          { const: "pro", title: "Pro ($10/month)" },
+          { const: "team", title: "Team ($25/seat)" },
+        ],
+        default: "free",
+      },
+    },
+    required: ["plan"],
+  },
+  legacy_enum: {
+    properties: {
+      size: {
+        type: "string",
+        title: "Size",
+        enum: ["s", "m", "l"],
+        enumNames: ["Small", "Medium", "Large"],
+        default: "m",
+      },
+    },
+    required: ["size"],
+  },
+  multi_select: {
+    properties: {
+      toppings: {
+        type: "array",
+        title: "Toppings",
+        minItems: 1,
+        maxItems: 3,
+        items: { type: "string", enum: ["cheese", "mushroom", "olive", "pepper"] },
+        default: ["cheese"],
+      },
+    },
+    required: ["toppings"],
+  },
+  titled_multi_select: {
+    properties: {
+      days: {
+        type: "array",
+        title: "Available days",
+        maxItems: 5,
+        items: {
+          anyOf: [
+            { const: "mon", title: "Monday" },
+            { const: "tue", title: "Tuesday" },
+            { const: "wed", title: "Wednesday" },
+            { const: "thu", title: "Thursday" },
+            { const: "fri", title: "Friday" },
+          ],
+        },
+        default: ["mon", "wed"],
+      },
+    },
+    required: [],
+  },
+};
+
+const VARIANTS = Object.keys(CATALOGUE) as [string, ...string[]];
+
+function catalogueEntry(variant: string): CatalogueEntry {
+  if (variant !== "all") return CATALOGUE[variant];
+
+  return Object.values(CATALOGUE).reduce<CatalogueEntry>(
+    (all, entry) => ({
+      properties: { ...all.properties, ...entry.properties },
+      required: [...all.required, ...entry.required],
+    }),
+    { properties: {}, required: [] }
+  );
+}
+
+function isValidFormat(format: string, value: string): boolean {
+  switch (format) {
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+    case "uri":
+      return URL.canParse(value);
+    case "date": {
+      const date = new Date(`${value}T00:00:00Z`);
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) &&
+        date.toISOString().startsWith(value);
+    }
+    case "date-time":
+      return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+}
+
+function fieldMismatches(
+  name: string,
+  schema: PrimitiveSchemaDefinition,
+  value: unknown
+): string[] {
+  const mismatches: string[] = [];
+  const fail = (reason: string) => mismatches.push(`${name}: ${reason}`);
+
+  if (schema.type === "array") {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      return [`${name}: expected an array of strings`];
+    }
+    const allowed =
+      "enum" in schema.items ? schema.items.enum : schema.items.anyOf.map((option) => option.const);
+    for (const item of value) {
+      if (!allowed.includes(item)) fail(`"${item}" is not one of ${allowed.join(", ")}`);
+    }
+    if (new Set(value).size !== value.length) fail("contains duplicates");
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`expected at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`expected at most ${schema.maxItems} item(s)`);
+    }
+    return mismatches;
+  }
+
+  if (schema.type === "boolean") {
+    return typeof value === "boolean" ? [] : [`${name}: expected a boolean`];
+  }
+
+  // What's left after arrays and booleans is numbers or strings
+  if (schema.type !== "string") {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return [`${name}: expected a number`];
+    }
+    if (schema.type === "integer" && !Number.isInteger(value)) fail("expected an integer");
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`expected at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`expected at most ${schema.maximum}`);
+    }
+    return mismatches;
+  }
+
+  if (typeof value !== "string") return [`${name}: expected a string`];
+
+  if ("oneOf" in schema || "enum" in schema) {
+    const allowed =
+      "oneOf" in schema ? schema.oneOf.map((option) => option.const) : schema.enum;
+    if (!allowed.includes(value)) fail(`"${value}" is not one of ${allowed.join(", ")}`);
+    return mismatches;
+  }
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    fail(`expected at least ${schema.minLength} character(s)`);
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    fail(`expected at most ${schema.maxLength} character(s)`);
+  }
+  if (schema.format && !isValidFormat(schema.format, value)) {
+    fail(`"${value}" is not a valid ${schema.format}`);
+  }
+  return mismatches;
+}
+
+/**
+ * Checks accepted elicitation content against the requested schema the way
+ * the spec describes it: required fields present, no unknown fields, and
+ * every value of the declared type, inside its bounds, format and options.
+ */
+function validateElicitedContent(
+  entry: CatalogueEntry,
+  content: Record<string, unknown>
+): string[] {
+  const mismatches: string[] = [];
+
+  for (const name of entry.required) {
+    if (!(name in content)) mismatches.push(`${name}: required but missing`);
+  }
+  for (const [name, value] of Object.entries(content)) {
+    const schema = entry.properties[name];
+    if (!schema) {
+      mismatches.push(`${name}: not in the requested schema`);
+      continue;
+    }
+    mismatches.push(...fieldMismatches(name, schema, value));
+  }
+
+  return mismatches;
+}
+
+export function setupElicitationCatalogue(server: McpServer) {
+  server.tool(
+    "elicitation_catalogue",
+    "Requests one (or every) spec-conformant primitive elicitation schema and validates the returned content against it",
+    {
+      variant: z
+        .enum([...VARIANTS, "all"])
+        .optional()
+        .describe("Schema variant to request (default: all)"),
+    },
+    {
+      title: "Elicitation Catalogue",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ variant = "all" }, { sendRequest, signal }) => {
+      const entry = catalogueEntry(variant);
+
+      // Sent as a raw request: elicitInput() would reject mismatching content
+      // itself, and this tool is meant to report it
+      let response;
+      try {
+        response = await sendRequest(
+          {
+            method: "elicitation/create",
+            params: {
+              mode: "form",
+              message: `Please fill in the ${variant} elicitation catalogue`,
+              requestedSchema: {
+                type: "object",
+                properties: entry.properties,
+                required: entry.required,
+              },
+            },
+          },
+          ElicitResultSchema,
+          { signal }
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Elicitation catalogue (${variant}) failed: ${message}` }],
+          isError: true,
+        };
+      }
+
+      if (response.action !== "accept") {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Elicitation catalogue (${variant}) was not accepted (action: ${response.action})`,
+            },
+          ],
+          _meta: { variant, action: response.action },
+        };
+      }
+
+      const content = response.content ?? {};
+      const mismatches = validateElicitedContent(entry, content);
+      const report = mismatches.length
+        ? `${mismatches.length} mismatch(es):\n${mismatches.join("\n")}`
+        : "Content matches the requested schema";
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Elicitation catalogue (${variant}) returned ${JSON.stringify(content)}\n${report}`,
+          },
+        ],
+        _meta: { variant, action: response.action, content, mismatches },
+        isError: mismatches.length > 0,
+      };
+    }
+  );
+}
@@ -1,6 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ElicitResultSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+import { openElicitationPage, type PageOutcome } from "../elicitation-pages.js";
+
 export function setupElicitationTools(server: McpServer) {
   // Tool that simulates elicitation requests for testing
   server.tool(
@@ -11,6 +14,11 @@ export function setupElicitationTools(server: McpServer) {
         .string()
         .describe("The scenario for which to collect preferences"),
     },
+    {
+      title: "Collect User Preferences",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ scenario }: { scenario: string }) => {
       // Real elicitation call to the client
       const elicitationResponse = await server.server.elicitInput({
@@ -67,6 +75,11 @@ export function setupElicitationTools(server: McpServer) {
         .enum(["user_profile", "settings", "feedback"])
         .describe("Type of data to collect"),
     },
+    {
+      title: "Complex Elicitation",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ data_type }: { data_type: string }) => {
       const schemas = {
         user_profile: {
@@ -145,6 +158,11 @@ export function setupElicitationTools(server: McpServer) {
         .enum(["sensitive", "optional", "required"])
         .describe("Type of request"),
     },
+    {
+      title: "Rejectable Elicitation",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ request_type }: { request_type: string }) => {
       const messages = {
         sensitive:
@@ -212,6 +230,11 @@ export function setupElicitationTools(server: McpServer) {
     {
       message: z.string().describe("Custom message for elicitation"),
     },
+    {
+      title: "Simple Elicitation",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ message }: { message: string }) => {
       const schema = {
         type: "object" as const,
@@ -244,4 +267,122 @@ export function setupElicitationTools(server: McpServer) {
       };
     }
   );
+
+  // Out-of-band elicitation: the client only opens a URL, and the answer
+  // arrives through a page served by this fixture (see elicitation-pages.ts)
+  server.tool(
+    "url_elicitation",
+    "Sends a URL-mode elicitation for a local page and waits until the page is completed out of band",
+    {
+      message: z
+        .string()
+        .optional()
+        .describe("Why the user should open the page"),
+      timeout_ms: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("How long to wait for the page after the client accepts (default: 120000)"),
+    },
+    {
+      title: "URL Elicitation",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async (
+      {
+        message = "Open the page to confirm the payment of $10",
+        timeout_ms = 120_000,
+      },
+      { sendRequest, sendNotification, signal }
+    ) => {
+      if (!server.server.getClientCapabilities()?.elicitation?.url) {
+        return {
+          content: [{ type: "text", text: "Client does not support URL-mode elicitation" }],
+          isError: true,
+        };
+      }
+
+      const page = openElicitationPage(message);
+      if (!page) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "URL-mode elicitation needs the HTTP server, which serves the pages",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort: (() => void) | undefined;
+      try {
+        const response = await sendRequest(
+          {
+            method: "elicitation/create",
+            params: {
+              mode: "url",
+              message,
+              url: page.url,
+              elicitationId: page.elicitationId,
+            },
+          },
+          ElicitResultSchema,
+          { signal }
+        );
+
+        // Declining or cancelling means the user never opens the page
+        if (response.action !== "accept") {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `URL elicitation was not accepted (action: ${response.action})`,
+              },
+            ],
+            _meta: { elicitation_id: page.elicitationId, action: response.action },
+          };
+        }
+
+        signal.throwIfAborted();
+        const outcome = await new Promise<PageOutcome>((resolve, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Page was not completed within ${timeout_ms}ms`)),
+            timeout_ms
+          );
+          onAbort = () => reject(signal.reason);
+          signal.addEventListener("abort", onAbort, { once: true });
+          page.outcome.then(resolve);
+        });
+
+        await sendNotification({
+          method: "notifications/elicitation/complete",
+          params: { elicitationId: page.elicitationId },
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `URL elicitation ${page.elicitationId} was ${outcome} out of band`,
+            },
+          ],
+          _meta: { elicitation_id: page.elicitationId, action: "accept", outcome },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `URL elicitation failed: ${errorMessage}` }],
+          isError: true,
+        };
+      } finally {
+        clearTimeout(timer);
+        if (onAbort) signal.removeEventListener("abort", onAbort);
+        page.close();
+      }
+    }
+  );
 }
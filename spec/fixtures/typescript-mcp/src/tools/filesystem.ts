@@ -0,0 +1,196 @@
+import { existsSync, realpathSync } from "node:fs";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { isAbsolute, join, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ListRootsResultSchema,
+  RootsListChangedNotificationSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+const MAX_SEARCH_RESULTS = 100;
+
+function errorResult(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: "text" as const, text: message }],
+    isError: true,
+  };
+}
+
+function rootPaths(roots: { uri: string }[]): string[] {
+  return roots
+    .filter((root) => root.uri.startsWith("file://"))
+    .map((root) => fileURLToPath(root.uri))
+    .filter((path) => existsSync(path))
+    .map((path) => realpathSync(path));
+}
+
+function isInside(path: string, root: string): boolean {
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
+
+// Resolves a requested path against the roots, following symlinks so a link
+// inside a root can't be used to reach a file outside it. Relative paths are
+// taken relative to the first root.
+function sandboxedPath(roots: string[], requested: string): string {
+  if (roots.length === 0) {
+    throw new Error("Client declared no file:// roots");
+  }
+
+  const candidate = isAbsolute(requested) ? requested : resolve(roots[0], requested);
+  const path = existsSync(candidate) ? realpathSync(candidate) : resolve(candidate);
+
+  if (!roots.some((root) => isInside(path, root))) {
+    throw new Error(`Access denied: ${requested} is outside the client roots`);
+  }
+  return path;
+}
+
+async function searchFiles(dir: string, pattern: string, matches: string[]) {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (matches.length >= MAX_SEARCH_RESULTS) return;
+
+    const path = join(dir, entry.name);
+    if (entry.name.toLowerCase().includes(pattern)) matches.push(path);
+    // Symlinked directories are skipped; they could point outside the roots
+    if (entry.isDirectory()) await searchFiles(path, pattern, matches);
+  }
+}
+
+export function setupFilesystemTools(server: McpServer) {
+  // Roots of the connected client, cached until it reports they changed.
+  // The generation guards against a slow roots/list answer overwriting a
+  // newer one.
+  let roots: string[] | undefined;
+  let generation = 0;
+
+  const getRoots = async (
+    sendRequest: RequestHandlerExtra<ServerRequest, ServerNotification>["sendRequest"]
+  ): Promise<string[]> => {
+    if (roots) return roots;
+
+    const requestedIn = generation;
+    const result = await sendRequest({ method: "roots/list" }, ListRootsResultSchema);
+    const paths = rootPaths(result.roots);
+    if (requestedIn === generation) roots = paths;
+    return paths;
+  };
+
+  server.server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+    generation += 1;
+    roots = undefined;
+
+    const requestedIn = generation;
+    server.server.listRoots().then(
+      (result) => {
+        if (requestedIn === generation) roots = rootPaths(result.roots);
+      },
+      () => {
+        // Tool calls query the roots themselves while the cache is empty
+      }
+    );
+  });
+
+  server.tool(
+    "read_file",
+    "Read a text file inside the client's roots",
+    { path: z.string().describe("Absolute path, or relative to the first root") },
+    {
+      title: "Read File",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ path }, { sendRequest }) => {
+      try {
+        const file = sandboxedPath(await getRoots(sendRequest), path);
+        return {
+          content: [{ type: "text", text: await readFile(file, "utf-8") }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "list_dir",
+    "List a directory inside the client's roots",
+    {
+      path: z
+        .string()
+        .optional()
+        .describe("Absolute path, or relative to the first root (default: first root)"),
+    },
+    {
+      title: "List Directory",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ path = "." }, { sendRequest }) => {
+      try {
+        const dir = sandboxedPath(await getRoots(sendRequest), path);
+        const entries = await readdir(dir, { withFileTypes: true });
+        const lines = entries
+          .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+          .sort();
+
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "search_files",
+    "Find files whose name contains a pattern, searching only inside the client's roots",
+    {
+      pattern: z.string().describe("Case-insensitive substring of the file name"),
+      path: z
+        .string()
+        .optional()
+        .describe("Directory to search (default: every root)"),
+    },
+    {
+      title: "Search Files",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ pattern, path }, { sendRequest }) => {
+      try {
+        const rootDirs = await getRoots(sendRequest);
+        const dirs = path === undefined ? rootDirs : [sandboxedPath(rootDirs, path)];
+        if (dirs.length === 0) {
+          throw new Error("Client declared no file:// roots");
+        }
+
+        const matches: string[] = [];
+        for (const dir of dirs) {
+          if ((await stat(dir)).isDirectory()) {
+            await searchFiles(dir, pattern.toLowerCase(), matches);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: matches.length
+                ? matches.join("\n")
+                : `No files matching "${pattern}"`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
@@ -7,7 +7,10 @@ import { setupNotificationTools } from "./notifications.js";
 import { setupClientInteractionTools } from "./client-interaction.js";
 import { setupProtocol2025Features } from "./protocol-2025-06-18.js";
 import { setupElicitationTools } from "./elicitation.js";
+import { setupElicitationCatalogue } from "./elicitation-catalogue.js";
 import { setupTaskTools } from "./tasks.js";
+import { setupFilesystemTools } from "./filesystem.js";
+import { setupSamplingTools } from "./sampling.js";
 
 export function setupTools(server: McpServer) {
   // Setup different categories of tools
@@ -19,5 +22,8 @@ export function setupTools(server: McpServer) {
   setupClientInteractionTools(server);
   setupProtocol2025Features(server);
   setupElicitationTools(server);
+  setupElicitationCatalogue(server);
   setupTaskTools(server);
+  setupFilesystemTools(server);
+  setupSamplingTools(server);
 }
@@ -7,6 +7,11 @@ export function setupMediaTools(server: McpServer) {
     "get_jackhammer_audio",
     "Returns the jackhammer audio file as a base64-encoded WAV",
     {},
+    {
+      title: "Get Jackhammer Audio",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async () => {
       try {
         // Read the jackhammer audio file from resources
@@ -43,6 +48,11 @@ export function setupMediaTools(server: McpServer) {
     "get_dog_image",
     "Returns the dog image as a base64-encoded PNG",
     {},
+    {
+      title: "Get Dog Image",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async () => {
       try {
         // Read the dog image file from resources
@@ -82,6 +92,11 @@ export function setupMediaTools(server: McpServer) {
     {
       filename: z.string().optional().default("example.txt"),
     },
+    {
+      title: "Get File Resource",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ filename }) => {
       return {
         content: [
@@ -47,14 +47,35 @@ export function setupMessagingTools(server: McpServer) {
   server.tool(
     "list_messages",
     { channel: z.string() },
+    {
+      title: "List Messages",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ channel }) => ({
       content: [{ type: "text", text: await listMessages(channel) }],
     })
   );
 
-  const putMessageTool = server.tool(
+  const putMessageTool = server.registerTool(
     "put_message",
-    { channel: z.string(), message: z.string() },
+    {
+      title: "Post Message",
+      description: "Post a message to a channel",
+      inputSchema: { channel: z.string(), message: z.string() },
+      // Writes to shared state other users see, so clients should ask first
+      annotations: {
+        title: "Post Message",
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+      _meta: {
+        "com.example/approval": { required: true, reason: "writes-shared-state" },
+        "com.example/required-scope": "write",
+      },
+    },
     async ({ channel, message }) => ({
       content: [{ type: "text", text: await putMessage(channel, message) }],
     })
@@ -66,6 +87,13 @@ export function setupMessagingTools(server: McpServer) {
     "upgrade_auth",
     "Upgrade authentication permissions",
     { permission: z.enum(["read", "write"]) },
+    {
+      title: "Upgrade Permissions",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
     // Any mutations here will automatically emit `listChanged` notifications
     async ({ permission }, { sendNotification }) => {
       const { ok, err, previous } = await upgradeAuthAndStoreToken(permission);
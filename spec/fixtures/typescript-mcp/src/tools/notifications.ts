@@ -1,8 +1,9 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { logMessage } from "../logging.ts";
+import { logData, LogLevelSchema } from "../logging.ts";
 import { z } from "zod";
 
 import { data as resourceData } from "../resources/text.ts";
+import { notifyResourceUpdated } from "../resources/subscriptions.ts";
 import { data as promptData } from "../prompts/simple.ts";
 
 // Helper function to create a delay
@@ -10,16 +11,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-type LogLevel =
-  | "info"
-  | "error"
-  | "debug"
-  | "notice"
-  | "warning"
-  | "critical"
-  | "alert"
-  | "emergency";
-
 export function setupNotificationTools(server: McpServer) {
   const raw_server = server.server;
 
@@ -33,6 +24,11 @@ export function setupNotificationTools(server: McpServer) {
         .describe("Name of the operation to simulate"),
       steps: z.number().optional().describe("Number of steps (default: 3)"),
     },
+    {
+      title: "Simulate Progress",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ operation = "processing", steps = 3 }, context) => {
       // Extract progress token from request metadata if available
       // The _meta field should contain the progressToken sent by the client
@@ -83,11 +79,82 @@ export function setupNotificationTools(server: McpServer) {
     }
   );
 
+  // Drops the response SSE stream part-way through so clients have to resume
+  // with Last-Event-ID. Only takes effect over Streamable HTTP with an event
+  // store and a 2025-11-25 (or newer) client; otherwise it behaves like `progress`.
+  server.tool(
+    "progress_with_disconnect",
+    "Simulate a multi-step operation that drops its SSE stream mid-progress",
+    {
+      steps: z.number().optional().describe("Number of steps (default: 4)"),
+      disconnect_after: z
+        .number()
+        .optional()
+        .describe("Step after which the SSE stream is closed (default: 2)"),
+      reconnect_wait_ms: z
+        .number()
+        .optional()
+        .describe("Time to wait for the client to reconnect (default: 500)"),
+    },
+    {
+      title: "Progress With Disconnect",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async (
+      { steps = 4, disconnect_after = 2, reconnect_wait_ms = 500 },
+      context
+    ) => {
+      const progressToken = context._meta?.progressToken;
+      const { sendNotification, closeSSEStream } = context;
+      let disconnected = false;
+
+      for (let i = 1; i <= steps; i++) {
+        await sleep(100);
+
+        if (progressToken) {
+          await sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress: i,
+              total: steps,
+              message: `Step ${i}/${steps}`,
+            },
+          });
+        }
+
+        if (i === disconnect_after && closeSSEStream) {
+          closeSSEStream();
+          disconnected = true;
+          // Give the client time to reconnect before anything else is sent
+          await sleep(reconnect_wait_ms);
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: disconnected
+              ? `Completed ${steps} steps after dropping the stream at step ${disconnect_after}`
+              : `Completed ${steps} steps without dropping the stream`,
+          },
+        ],
+      };
+    }
+  );
+
   // Simple single progress tool
   server.tool(
     "simple_progress",
     "Send a single progress notification",
     { progress: z.number().min(0).max(100) },
+    {
+      title: "Send Progress",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ progress }, context) => {
       // Extract progress token from request metadata if available
       const progressToken = context._meta?.progressToken;
@@ -121,32 +188,34 @@ export function setupNotificationTools(server: McpServer) {
 
   server.tool(
     "log_message",
-    "Logs a message",
+    "Logs a message, or an arbitrary JSON payload passed as data",
     {
-      message: z.string(),
-      level: z.string(),
+      message: z.string().optional(),
+      data: z
+        .unknown()
+        .optional()
+        .describe("Structured payload sent as-is instead of { message }"),
+      level: LogLevelSchema,
       logger: z.string().optional(),
     },
-    async ({ message, level, logger }, { sendNotification }) => {
-      const validLevels = [
-        "info",
-        "error",
-        "debug",
-        "notice",
-        "warning",
-        "critical",
-        "alert",
-        "emergency",
-      ];
-      const logLevel: LogLevel = validLevels.includes(level)
-        ? (level as LogLevel)
-        : "info";
+    {
+      title: "Log Message",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ message, data, level, logger }, { sendNotification }) => {
+      if (message === undefined && data === undefined) {
+        return {
+          content: [{ type: "text", text: "Either message or data is required" }],
+          isError: true,
+        };
+      }
 
       // Use the centralized logging function that handles both transports
-      await logMessage(
+      await logData(
         raw_server,
-        message,
-        logLevel,
+        data !== undefined ? data : { message },
+        level,
         logger || "mcp",
         sendNotification
       );
@@ -161,15 +230,20 @@ export function setupNotificationTools(server: McpServer) {
     "changes_plain_text_resource",
     "Reference a resource",
     {},
+    {
+      title: "Update Plain Text Resource",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
     async ({}, { sendNotification }) => {
       resourceData.update();
 
-      sendNotification({
-        method: "notifications/resources/updated",
-        params: {
-          uri: "file://plain_text.txt/",
-          title: "plain_text.txt",
-        },
+      // Only sessions that subscribed to the resource hear about the change
+      await notifyResourceUpdated("file://plain_text.txt/", {
+        server: raw_server,
+        sendNotification,
       });
       return {
         content: [{ type: "text", text: "Success!" }],
@@ -181,6 +255,13 @@ export function setupNotificationTools(server: McpServer) {
     "enable_resource",
     "Enable a resource",
     {},
+    {
+      title: "Enable Resource",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
     async ({}) => {
       return {
         content: [{ type: "text", text: "Success!" }],
@@ -193,6 +274,13 @@ export function setupNotificationTools(server: McpServer) {
     "send_list_changed",
     "List changed",
     { type: z.enum(["tools", "resources", "prompts"]) },
+    {
+      title: "Send List Changed",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
     async ({ type }, { sendNotification }) => {
       sendNotification({
         method: `notifications/${type}/list_changed`,
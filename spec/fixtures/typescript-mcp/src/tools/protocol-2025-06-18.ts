@@ -1,22 +1,150 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  type CallToolRequest,
+  CallToolRequestSchema,
+  type CallToolResult,
+  type CreateTaskResult,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 
+import { storeReport } from "../resources/reports.js";
+
+type CallToolHandler = (
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => CallToolResult | CreateTaskResult | Promise<CallToolResult | CreateTaskResult>;
+
+const invalidStructuredOutputInput = {
+  trigger_error: z.boolean().optional(),
+};
+
+// Breaks a wrong type, an enum value outside the set, a string instead of an
+// array, a nested object missing a field, and a missing required field
+async function invalidStructuredOutput({
+  trigger_error = true,
+}: {
+  trigger_error?: boolean;
+}): Promise<CallToolResult> {
+  if (trigger_error) {
+    return {
+      content: [{ type: "text", text: "Invalid structured data" }],
+      // This should fail validation
+      structuredContent: {
+        valid_field: "not_a_number",
+        status: "unknown",
+        tags: "alpha,beta",
+        details: { code: "E42" },
+      },
+    };
+  }
+
+  return {
+    content: [{ type: "text", text: "Valid output" }],
+    structuredContent: {
+      valid_field: 123,
+      required_field: "present",
+      status: "ok",
+      tags: ["alpha", "beta"],
+      details: { code: 42, message: "All good" },
+    },
+  };
+}
+
+/**
+ * McpServer checks every result's structuredContent against the tool's
+ * outputSchema and turns a mismatch into an error, so invalid_structured_output
+ * could never hand its invalid output to a client. Calls to it with valid
+ * arguments are answered here without that check; everything else, including
+ * its argument errors, still goes through McpServer.
+ *
+ * Must be called before the tools are registered: McpServer installs its
+ * `tools/call` handler with the first tool, and this wraps that handler.
+ */
+export function bypassOutputValidation(server: McpServer) {
+  const rawServer = server.server;
+  const setRequestHandler = rawServer.setRequestHandler.bind(rawServer);
+
+  rawServer.setRequestHandler = (requestSchema, handler) => {
+    const schema: object = requestSchema;
+    if (schema !== CallToolRequestSchema) {
+      setRequestHandler(requestSchema, handler);
+      return;
+    }
+
+    const callTool = handler as CallToolHandler;
+    setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      if (request.params.name !== "invalid_structured_output") {
+        return callTool(request, extra);
+      }
+
+      const args = z.object(invalidStructuredOutputInput).safeParse(request.params.arguments ?? {});
+      return args.success ? invalidStructuredOutput(args.data) : callTool(request, extra);
+    });
+  };
+}
+
 export function setupProtocol2025Features(server: McpServer) {
   // Tool with structured output schema
-  server.tool(
+  server.registerTool(
     "structured_data_analyzer",
-    "Analyzes data and returns structured results",
     {
-      data: z.string(),
-      format: z.enum(["summary", "detailed"]).optional(),
+      title: "Analyze Text",
+      description: "Analyzes data and returns structured results",
+      inputSchema: {
+        data: z.string(),
+        format: z.enum(["summary", "detailed"]).optional(),
+      },
+      outputSchema: {
+        word_count: z.number().int(),
+        character_count: z.number().int(),
+        analysis_type: z.enum(["summary", "detailed"]),
+        sentiment: z.enum(["positive", "neutral", "negative"]),
+        confidence: z.number().min(0).max(1),
+        top_words: z.array(
+          z.object({
+            word: z.string(),
+            count: z.number().int(),
+          })
+        ),
+        statistics: z.object({
+          average_word_length: z.number(),
+          longest_word: z.string(),
+        }),
+      },
+      annotations: {
+        title: "Analyze Text",
+        readOnlyHint: true,
+        openWorldHint: false,
+      },
     },
-    async ({ data, format = "summary" }: { data: string; format?: string }) => {
+    async ({ data, format = "summary" }) => {
+      const words = data.split(" ").filter(Boolean);
+      const counts = new Map<string, number>();
+      for (const word of words) {
+        counts.set(word.toLowerCase(), (counts.get(word.toLowerCase()) || 0) + 1);
+      }
+
       const analysis = {
         word_count: data.split(" ").length,
         character_count: data.length,
         analysis_type: format,
-        sentiment: "neutral",
+        sentiment: "neutral" as const,
         confidence: 0.85,
+        top_words: Array.from(counts, ([word, count]) => ({ word, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 3),
+        statistics: {
+          average_word_length: words.length
+            ? words.reduce((sum, word) => sum + word.length, 0) / words.length
+            : 0,
+          longest_word: words.reduce(
+            (longest, word) => (word.length > longest.length ? word : longest),
+            ""
+          ),
+        },
       };
 
       return {
@@ -27,47 +155,52 @@ export function setupProtocol2025Features(server: McpServer) {
     }
   );
 
-  // Tool with invalid structured output (for testing validation)
-  server.tool(
+  // Tool with invalid structured output (for testing validation). When
+  // trigger_error is set, its structuredContent breaks every constraint of
+  // its outputSchema; bypassOutputValidation keeps McpServer from rejecting it.
+  server.registerTool(
     "invalid_structured_output",
-    "Tool that returns invalid structured data",
     {
-      trigger_error: z.boolean().optional(),
+      title: "Invalid Structured Output",
+      description: "Tool that returns invalid structured data",
+      inputSchema: invalidStructuredOutputInput,
+      outputSchema: {
+        valid_field: z.number(),
+        required_field: z.string(),
+        status: z.enum(["ok", "degraded"]),
+        tags: z.array(z.string()),
+        details: z.object({
+          code: z.number().int(),
+          message: z.string(),
+        }),
+      },
+      annotations: {
+        title: "Invalid Structured Output",
+        readOnlyHint: true,
+        openWorldHint: false,
+      },
     },
-    async ({ trigger_error = true }: { trigger_error?: boolean }) => {
-      if (trigger_error) {
-        return {
-          content: [{ type: "text", text: "Invalid structured data" }],
-          // This should fail validation
-          structuredContent: {
-            invalid_field: "not_a_number",
-            missing_required: true,
-          },
-        };
-      }
-
-      return {
-        content: [{ type: "text", text: "Valid output" }],
-        structuredContent: {
-          valid_field: 123,
-          required_field: "present",
-        },
-      };
-    }
+    invalidStructuredOutput
   );
 
   // Tool that returns resource links
   server.tool(
     "create_report",
-    "Creates a report and returns it as a resource",
+    "Creates a report, stores it as a resource and returns a link to it",
     {
       title: z.string(),
       content: z.string(),
       format: z.enum(["text", "json"]).optional(),
     },
+    {
+      title: "Create Report",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
     async ({ title, content, format = "text" }) => {
       const timestamp = new Date().toISOString();
-      const filename = `report-${Date.now()}.${format}`;
 
       let resourceContent;
       let mimeType;
@@ -89,22 +222,20 @@ export function setupProtocol2025Features(server: McpServer) {
         mimeType = "text/plain";
       }
 
+      const link = storeReport(server, {
+        title,
+        text: resourceContent,
+        mimeType,
+        extension: format === "json" ? "json" : "txt",
+      });
+
       return {
         content: [
           {
             type: "text",
             text: `Report "${title}" created successfully`,
           },
-          {
-            type: "resource",
-            resource: {
-              uri: `file:///tmp/reports/${filename}`,
-              name: `report_${title.toLowerCase().replace(/\s+/g, "_")}`,
-              description: `Generated report: ${title}`,
-              mimeType,
-              text: resourceContent,
-            },
-          },
+          link,
         ],
       };
     }
@@ -117,6 +248,11 @@ export function setupProtocol2025Features(server: McpServer) {
     {
       scenario: z.string(),
     },
+    {
+      title: "Collect User Preferences via Elicitation",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ scenario }) => {
       // Real elicitation call to the client
       const elicitationSchema = {
@@ -162,6 +298,11 @@ export function setupProtocol2025Features(server: McpServer) {
       expression: z.string(),
       precision: z.number().optional(),
     },
+    {
+      title: "Calculate Expression",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({
       expression,
       precision = 2,
@@ -211,6 +352,11 @@ export function setupProtocol2025Features(server: McpServer) {
       duration: z.number().optional(),
       steps: z.number().optional(),
     },
+    {
+      title: "Long Running Task",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ duration = 1000, steps = 5 }) => {
       const stepDuration = duration / steps;
       const taskId = `task-${Date.now()}`;
@@ -243,6 +389,11 @@ export function setupProtocol2025Features(server: McpServer) {
       query: z.string(),
       context_type: z.enum(["user", "project", "workflow"]).optional(),
     },
+    {
+      title: "Context-Aware Suggestion",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ query, context_type = "user" }) => {
       // This tool would typically use completion with context
       // For testing, we'll return metadata showing context awareness
@@ -0,0 +1,352 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  type CreateMessageRequest,
+  CreateMessageResultSchema,
+  CreateMessageResultWithToolsSchema,
+  type SamplingMessage,
+  type Tool,
+  type ToolResultContent,
+  type ToolUseContent,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+import { readResourceFile } from "../utils/file-utils.js";
+
+// Tools offered to the client's model during sampling. The server runs them
+// itself when the model asks for them.
+const SAMPLING_TOOLS: Tool[] = [
+  {
+    name: "get_weather",
+    description: "Get the current weather for a city",
+    inputSchema: {
+      type: "object",
+      properties: { city: { type: "string" } },
+      required: ["city"],
+    },
+  },
+  {
+    name: "add",
+    description: "Add two numbers together",
+    inputSchema: {
+      type: "object",
+      properties: { a: { type: "number" }, b: { type: "number" } },
+      required: ["a", "b"],
+    },
+  },
+];
+
+function runSamplingTool(toolUse: ToolUseContent): ToolResultContent {
+  const result = (text: string, isError = false): ToolResultContent => ({
+    type: "tool_result",
+    toolUseId: toolUse.id,
+    content: [{ type: "text", text }],
+    ...(isError ? { isError } : {}),
+  });
+
+  const { input } = toolUse;
+  switch (toolUse.name) {
+    case "get_weather":
+      return typeof input.city === "string"
+        ? result(`Weather for ${input.city} is great!`)
+        : result("city must be a string", true);
+    case "add":
+      return typeof input.a === "number" && typeof input.b === "number"
+        ? result(String(input.a + input.b))
+        : result("a and b must be numbers", true);
+    default:
+      return result(`Unknown tool: ${toolUse.name}`, true);
+  }
+}
+
+function textOf(content: SamplingMessage["content"]): string {
+  const blocks = Array.isArray(content) ? content : [content];
+  return blocks
+    .filter((block) => block.type === "text")
+    .map((block) => (block as { text: string }).text)
+    .join("\n");
+}
+
+type SamplingHistory = "text" | "image" | "audio" | "mixed";
+
+// Message histories for sample_scenario; media comes from the bundled
+// resources so clients see real image/audio payloads
+async function samplingHistory(
+  history: SamplingHistory,
+  prompt: string
+): Promise<SamplingMessage[]> {
+  const image = async (): Promise<SamplingMessage> => ({
+    role: "user",
+    content: {
+      type: "image",
+      data: (await readResourceFile("dog.png")).toString("base64"),
+      mimeType: "image/png",
+    },
+  });
+  const audio = async (): Promise<SamplingMessage> => ({
+    role: "user",
+    content: {
+      type: "audio",
+      data: (await readResourceFile("jackhammer.wav")).toString("base64"),
+      mimeType: "audio/wav",
+    },
+  });
+  const question: SamplingMessage = {
+    role: "user",
+    content: { type: "text", text: prompt },
+  };
+
+  switch (history) {
+    case "text":
+      return [question];
+    case "image":
+      return [await image(), question];
+    case "audio":
+      return [await audio(), question];
+    case "mixed":
+      return [
+        { role: "user", content: { type: "text", text: "Here is a photo." } },
+        await image(),
+        {
+          role: "assistant",
+          content: { type: "text", text: "It shows a dog. Anything else?" },
+        },
+        { role: "user", content: { type: "text", text: "And this recording." } },
+        await audio(),
+        question,
+      ];
+  }
+}
+
+// Base64 payloads would drown the echo, so report their size instead
+function withoutData<T extends SamplingMessage["content"]>(content: T): T {
+  return !Array.isArray(content) && "data" in content
+    ? { ...content, data: `<${content.data.length} base64 chars>` }
+    : content;
+}
+
+function withoutMediaData(params: CreateMessageRequest["params"]) {
+  return {
+    ...params,
+    messages: params.messages.map((message) => ({
+      ...message,
+      content: withoutData(message.content),
+    })),
+  };
+}
+
+export function setupSamplingTools(server: McpServer) {
+  server.tool(
+    "sample_with_tools",
+    "Runs a multi-turn sampling/createMessage loop that offers the client's model tools, answering each tool_use with a tool_result until the model stops",
+    {
+      prompt: z
+        .string()
+        .optional()
+        .describe("User message to start with"),
+      tool_choice: z
+        .enum(["auto", "required", "none"])
+        .optional()
+        .describe("toolChoice mode for the first request (default: auto)"),
+      max_turns: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Most createMessage requests to send (default: 5)"),
+    },
+    {
+      title: "Sample With Tools",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async (
+      {
+        prompt = "What's the weather in Paris, and what is 2 + 3?",
+        tool_choice = "auto",
+        max_turns = 5,
+      },
+      { sendRequest, signal }
+    ) => {
+      if (!server.server.getClientCapabilities()?.sampling?.tools) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Client does not support sampling tools capability",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const messages: SamplingMessage[] = [
+        { role: "user", content: { type: "text", text: prompt } },
+      ];
+      const toolCalls: string[] = [];
+
+      try {
+        for (let turn = 1; turn <= max_turns; turn++) {
+          const result = await sendRequest(
+            {
+              method: "sampling/createMessage",
+              params: {
+                messages,
+                tools: SAMPLING_TOOLS,
+                // Only the first request forces or forbids tools; after that
+                // the model decides, so a "required" loop can still finish
+                toolChoice: { mode: turn === 1 ? tool_choice : "auto" },
+                systemPrompt: "You are a helpful assistant. Use the tools when they help.",
+                maxTokens: 200,
+              },
+            },
+            CreateMessageResultWithToolsSchema,
+            { signal }
+          );
+
+          messages.push({ role: "assistant", content: result.content });
+
+          const blocks = Array.isArray(result.content)
+            ? result.content
+            : [result.content];
+          const toolUses = blocks.filter(
+            (block): block is ToolUseContent => block.type === "tool_use"
+          );
+
+          if (result.stopReason !== "toolUse" || toolUses.length === 0) {
+            const summary = toolCalls.length
+              ? `Tool calls:\n${toolCalls.join("\n")}\n\n`
+              : "";
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `${summary}Final answer after ${turn} turn(s) (stopReason: ${result.stopReason ?? "unknown"}, model: ${result.model}):\n${textOf(result.content)}`,
+                },
+              ],
+            };
+          }
+
+          const toolResults = toolUses.map((toolUse) => {
+            const toolResult = runSamplingTool(toolUse);
+            toolCalls.push(
+              `${toolUse.name}(${JSON.stringify(toolUse.input)}) => ${textOf(toolResult.content as SamplingMessage["content"])}`
+            );
+            return toolResult;
+          });
+          messages.push({ role: "user", content: toolResults });
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Model was still calling tools after ${max_turns} turn(s)`,
+            },
+          ],
+          isError: true,
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Sampling with tools failed: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "sample_scenario",
+    "Sends one sampling/createMessage built from the given options and echoes the request and the client's result",
+    {
+      prompt: z
+        .string()
+        .optional()
+        .describe("Final user message (default: \"Describe what you were given.\")"),
+      history: z
+        .enum(["text", "image", "audio", "mixed"])
+        .optional()
+        .describe("Messages sent before the prompt: dog.png, jackhammer.wav or both (default: text)"),
+      include_context: z.enum(["none", "thisServer", "allServers"]).optional(),
+      system_prompt: z.string().optional(),
+      stop_sequences: z.array(z.string()).optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      max_tokens: z.number().int().min(1).optional(),
+      metadata: z.record(z.unknown()).optional(),
+      model_hints: z.array(z.string()).optional(),
+      cost_priority: z.number().min(0).max(1).optional(),
+      speed_priority: z.number().min(0).max(1).optional(),
+      intelligence_priority: z.number().min(0).max(1).optional(),
+    },
+    {
+      title: "Sampling Scenario",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async (
+      {
+        prompt = "Describe what you were given.",
+        history = "text",
+        include_context,
+        system_prompt,
+        stop_sequences,
+        temperature,
+        max_tokens = 100,
+        metadata,
+        model_hints,
+        cost_priority,
+        speed_priority,
+        intelligence_priority,
+      },
+      { sendRequest, signal }
+    ) => {
+      try {
+        // Only the options that were given are sent, so each one can be
+        // tested on its own
+        const modelPreferences = {
+          ...(model_hints !== undefined && {
+            hints: model_hints.map((name) => ({ name })),
+          }),
+          ...(cost_priority !== undefined && { costPriority: cost_priority }),
+          ...(speed_priority !== undefined && { speedPriority: speed_priority }),
+          ...(intelligence_priority !== undefined && {
+            intelligencePriority: intelligence_priority,
+          }),
+        };
+        const params: CreateMessageRequest["params"] = {
+          messages: await samplingHistory(history, prompt),
+          maxTokens: max_tokens,
+          ...(system_prompt !== undefined && { systemPrompt: system_prompt }),
+          ...(include_context !== undefined && { includeContext: include_context }),
+          ...(stop_sequences !== undefined && { stopSequences: stop_sequences }),
+          ...(temperature !== undefined && { temperature }),
+          ...(metadata !== undefined && { metadata }),
+          ...(Object.keys(modelPreferences).length > 0 && { modelPreferences }),
+        };
+
+        const result = await sendRequest(
+          { method: "sampling/createMessage", params },
+          CreateMessageResultSchema,
+          { signal }
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Request: ${JSON.stringify(withoutMediaData(params))}\nResult: ${JSON.stringify({ ...result, content: withoutData(result.content) })}`,
+            },
+            // Image and audio answers are passed through as they came
+            ...(result.content.type === "text" ? [] : [result.content]),
+          ],
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `Sampling scenario failed: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
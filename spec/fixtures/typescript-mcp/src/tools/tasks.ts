@@ -3,8 +3,9 @@ import { randomUUID } from "node:crypto";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
-import { notifyTaskStatus } from "../tasks/protocol.js";
+import { notifyTaskStatus, relatedTaskMeta } from "../tasks/protocol.js";
 import { taskStore } from "../tasks/task-store.js";
+import { augmentedTaskId } from "../tasks/tool-calls.js";
 
 function extractTextContent(content: unknown): string {
   if (!content || typeof content !== "object") return "";
@@ -13,6 +14,61 @@ function extractTextContent(content: unknown): string {
   return "";
 }
 
+type InputMode = "elicitation" | "sampling";
+
+// Parks the task in input_required while the nested request is outstanding.
+// The request carries related-task metadata so the client can tie it to the task.
+async function requestTaskInput(
+  server: McpServer,
+  taskId: string,
+  mode: InputMode,
+  prompt: string
+) {
+  // Cancelling the task cancels the outstanding request on the client too
+  const signal = taskStore.getTaskSignal(taskId);
+
+  const waiting = taskStore.setTaskStatus(
+    taskId,
+    "input_required",
+    `Waiting for client ${mode}`
+  );
+  if (waiting) await notifyTaskStatus(server, waiting);
+
+  let text: string;
+  if (mode === "elicitation") {
+    const result = await server.server.elicitInput(
+      {
+        message: prompt,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            answer: { type: "string", description: "Answer to the prompt" },
+          },
+          required: ["answer"],
+        },
+        _meta: relatedTaskMeta(taskId),
+      },
+      { signal }
+    );
+    text = `Elicitation ${result.action}: ${JSON.stringify(result.content ?? {})}`;
+  } else {
+    const result = await server.server.createMessage(
+      {
+        messages: [{ role: "user", content: { type: "text", text: prompt } }],
+        maxTokens: 80,
+        _meta: relatedTaskMeta(taskId),
+      },
+      { signal }
+    );
+    text = extractTextContent(result.content) || "No text returned";
+  }
+
+  const resumed = taskStore.setTaskStatus(taskId, "working", "Client input received");
+  if (resumed) await notifyTaskStatus(server, resumed);
+
+  return { content: [{ type: "text" as const, text }] };
+}
+
 export function setupTaskTools(server: McpServer) {
   server.tool(
     "start_background_task",
@@ -21,23 +77,86 @@ export function setupTaskTools(server: McpServer) {
       prompt: z.string().optional(),
       delay_ms: z.number().optional(),
     },
-    async ({ prompt = "Task finished", delay_ms = 200 }) => {
+    {
+      title: "Start Background Task",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    async ({ prompt = "Task finished", delay_ms = 200 }, { sessionId }) => {
       const taskId = `task-${randomUUID()}`;
       const task = taskStore.createTask({
         taskId,
+        sessionId,
         status: "working",
         statusMessage: "Task started",
         pollInterval: 50,
       });
       await notifyTaskStatus(server, task);
 
-      setTimeout(() => {
-        const completed = taskStore.setTaskStatus(taskId, "completed", "Task completed");
+      const timer = setTimeout(() => {
         taskStore.setTaskPayload(taskId, {
           content: [{ type: "text", text: prompt }],
         });
+        const completed = taskStore.setTaskStatus(taskId, "completed", "Task completed");
         if (completed) void notifyTaskStatus(server, completed);
       }, delay_ms);
+      taskStore.getTaskSignal(taskId)?.addEventListener("abort", () => clearTimeout(timer));
+
+      return {
+        content: [{ type: "text", text: `task_id:${taskId}` }],
+      };
+    }
+  );
+
+  server.tool(
+    "start_input_required_task",
+    "Create a task that moves to input_required until the client answers an elicitation or sampling request",
+    {
+      prompt: z.string().optional(),
+      mode: z.enum(["elicitation", "sampling"]).optional(),
+    },
+    {
+      title: "Start Input-Required Task",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    async ({ prompt = "What should the task do next?", mode = "elicitation" }, extra) => {
+      // Task-augmented call: the wrapper owns the task and stores our result
+      const wrappingTaskId = augmentedTaskId(extra);
+      if (wrappingTaskId) {
+        return requestTaskInput(server, wrappingTaskId, mode, prompt);
+      }
+
+      const taskId = `task-${randomUUID()}`;
+      const task = taskStore.createTask({
+        taskId,
+        sessionId: extra.sessionId,
+        status: "working",
+        statusMessage: "Task started",
+        pollInterval: 50,
+      });
+      await notifyTaskStatus(server, task);
+
+      requestTaskInput(server, taskId, mode, prompt).then(
+        (result) => {
+          taskStore.setTaskPayload(taskId, result);
+          const completed = taskStore.setTaskStatus(taskId, "completed", "Task completed");
+          if (completed) void notifyTaskStatus(server, completed);
+        },
+        (error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          taskStore.setTaskPayload(taskId, {
+            isError: true,
+            content: [{ type: "text", text: message }],
+          });
+          const failed = taskStore.setTaskStatus(taskId, "failed", message);
+          if (failed) void notifyTaskStatus(server, failed);
+        }
+      );
 
       return {
         content: [{ type: "text", text: `task_id:${taskId}` }],
@@ -51,10 +170,18 @@ export function setupTaskTools(server: McpServer) {
     {
       prompt: z.string(),
     },
-    async ({ prompt }) => {
+    {
+      title: "Start LLM Background Task",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    async ({ prompt }, { sessionId }) => {
       const taskId = `task-${randomUUID()}`;
       const task = taskStore.createTask({
         taskId,
+        sessionId,
         status: "working",
         statusMessage: "Waiting for client sampling",
         pollInterval: 50,
@@ -62,20 +189,23 @@ export function setupTaskTools(server: McpServer) {
       await notifyTaskStatus(server, task);
 
       try {
-        const result = await server.server.createMessage({
-          messages: [
-            {
-              role: "user",
-              content: { type: "text", text: prompt },
+        const result = await server.server.createMessage(
+          {
+            messages: [
+              {
+                role: "user",
+                content: { type: "text", text: prompt },
+              },
+            ],
+            model: "gpt-4o",
+            modelPreferences: {
+              hints: [{ name: "gpt-4o" }],
             },
-          ],
-          model: "gpt-4o",
-          modelPreferences: {
-            hints: [{ name: "gpt-4o" }],
-          },
-          maxTokens: 80,
-          task: { ttl: 60_000 },
-        } as never);
+            maxTokens: 80,
+            task: { ttl: 60_000 },
+          } as never,
+          { signal: taskStore.getTaskSignal(taskId) }
+        );
 
         const text = extractTextContent(result.content);
 
@@ -1,6 +1,59 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 
+import { mockOriginUrl } from "../mock-origin.js";
+
+// fetch_site answers from the local mock origin (see mock-origin.ts) so tests
+// run offline; pass `--live-fetch` (or set `FETCH_SITE_LIVE=true`) to reach
+// the real network instead
+const isLiveFetch =
+  process.argv.includes("--live-fetch") || process.env.FETCH_SITE_LIVE === "true";
+
+const FETCH_TIMEOUT_MS = Number(process.env.FETCH_SITE_TIMEOUT_MS) || 10000;
+const MAX_REDIRECTS = 5;
+
+function assertHttpUrl(url: URL) {
+  if (!["http:", "https:"].includes(url.protocol)) {
+    throw new Error("Only HTTP and HTTPS URLs are supported");
+  }
+}
+
+// Follows redirects by hand so every hop, including ones to other hosts, is
+// served by the mock origin too
+async function fetchPage(
+  url: URL,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<string> {
+  for (let redirects = 0; ; redirects++) {
+    const target = isLiveFetch
+      ? url
+      : new URL(url.pathname + url.search, await mockOriginUrl());
+
+    const response = await fetch(target.href, {
+      headers: isLiveFetch ? headers : { ...headers, "X-Original-Host": url.host },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+      url = new URL(location, url);
+      assertHttpUrl(url);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+}
+
 export function setupUtilityTools(server: McpServer) {
   const rawServer = server.server;
 
@@ -8,6 +61,11 @@ export function setupUtilityTools(server: McpServer) {
     "add",
     "Addes two numbers together",
     { a: z.number(), b: z.number() },
+    {
+      title: "Add Numbers",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ a, b }) => ({
       content: [{ type: "text", text: String(a + b) }],
     })
@@ -17,6 +75,11 @@ export function setupUtilityTools(server: McpServer) {
     "return_set_evn",
     "Returns the set environment variable",
     {},
+    {
+      title: "Read Test Environment",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async () => {
       const testEnv = process.env.TEST_ENV || "Not set";
       return {
@@ -45,6 +108,11 @@ export function setupUtilityTools(server: McpServer) {
     {
       shouldError: z.boolean().optional(),
     },
+    {
+      title: "Return Tool Error",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ shouldError }) => {
       if (shouldError) {
         const error = Error("Tool error");
@@ -69,30 +137,62 @@ export function setupUtilityTools(server: McpServer) {
     "timeout_tool",
     "Sleeps for a given number of seconds",
     { seconds: z.number() },
-    async ({ seconds }) => {
-      await new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+    {
+      title: "Sleep",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    async ({ seconds }, { signal }) => {
+      // notifications/cancelled aborts the signal; stop sleeping rather than
+      // finishing work nobody is waiting for
+      signal.throwIfAborted();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let onAbort: (() => void) | undefined;
+      try {
+        await new Promise<void>((resolve, reject) => {
+          timer = setTimeout(resolve, seconds * 1000);
+          onAbort = () => reject(signal.reason);
+          signal.addEventListener("abort", onAbort, { once: true });
+        });
+      } finally {
+        clearTimeout(timer);
+        if (onAbort) signal.removeEventListener("abort", onAbort);
+      }
       return {
         content: [{ type: "text", text: "Succesfull executed timeout tool" }],
       };
     }
   );
 
-  server.tool(
+  server.registerTool(
     "fetch_site",
-    "Fetches website content and returns it as text",
     {
-      website: z.union([
-        z.string(),
-        z.object({
-          url: z.string(),
-          headers: z.array(
-            z.object({
-              name: z.string(),
-              value: z.string(),
-            })
-          ),
-        }),
-      ]),
+      title: "Fetch Website",
+      description: "Fetches website content and returns it as text",
+      inputSchema: {
+        website: z.union([
+          z.string(),
+          z.object({
+            url: z.string(),
+            headers: z.array(
+              z.object({
+                name: z.string(),
+                value: z.string(),
+              })
+            ),
+          }),
+        ]),
+      },
+      // Reaches arbitrary hosts on the internet, but only ever reads
+      annotations: {
+        title: "Fetch Website",
+        readOnlyHint: true,
+        openWorldHint: true,
+      },
+      _meta: {
+        "com.example/approval": { required: true, reason: "network-egress" },
+        "com.example/timeout-ms": 10000,
+      },
     },
     async ({ website }) => {
       try {
@@ -103,43 +203,29 @@ export function setupUtilityTools(server: McpServer) {
 
         // Validate URL
         const url = new URL(websiteUrl);
-        if (!["http:", "https:"].includes(url.protocol)) {
-          throw new Error("Only HTTP and HTTPS URLs are supported");
-        }
+        assertHttpUrl(url);
 
-        let html: string;
-
-        // Return hardcoded response for example.com to avoid SSL certificate issues
-        if (websiteUrl === "https://www.example.com/") {
-          html =
-            '<!doctype html><html lang="en"><head><title>Example Domain</title><meta name="viewport" content="width=device-width, initial-scale=1"><style>body{background:#eee;width:60vw;margin:15vh auto;font-family:system-ui,sans-serif}h1{font-size:1.5em}div{opacity:0.8}a:link,a:visited{color:#348}</style><body><div><h1>Example Domain</h1><p>This domain is for use in documentation examples without needing permission. Avoid use in operations.<p><a href="https://iana.org/domains/example">Learn more</a></div></body></html>';
-        } else {
-          // Fetch the website content with timeout
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-          const headers = {
-            "User-Agent": "Mozilla/5.0 (compatible; MCP-Tool/1.0)",
-            ...customHeaders,
-          };
-
-          const headersArray = Object.entries(headers).map(([key, value]) => [
-            key,
-            value,
-          ]);
-
-          const response = await fetch(url.href, {
-            headers: Object.fromEntries(headersArray),
-            signal: controller.signal,
-          });
+        const headers: Record<string, string> = {
+          "User-Agent": "Mozilla/5.0 (compatible; MCP-Tool/1.0)",
+          ...Object.fromEntries(
+            (customHeaders || []).map(({ name, value }) => [name, value])
+          ),
+        };
 
-          clearTimeout(timeoutId);
+        // Fetch the website content with timeout
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        let html: string;
+        try {
+          html = await fetchPage(url, headers, controller.signal);
+        } catch (error) {
+          if (controller.signal.aborted) {
+            throw new Error(`Timed out after ${FETCH_TIMEOUT_MS}ms`);
           }
-
-          html = await response.text();
+          throw error;
+        } finally {
+          clearTimeout(timeoutId);
         }
 
         // Basic HTML content extraction (remove script, style, and HTML tags)
@@ -6,6 +6,11 @@ export function setupWeatherTools(server: McpServer) {
     "get_weather_from_locations",
     "Get the weather from a list of locations",
     { locations: z.array(z.string()) },
+    {
+      title: "Get Weather by Location",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ locations }) => ({
       content: [
         { type: "text", text: `Weather for ${locations.join(", ")} is great!` },
@@ -22,6 +27,11 @@ export function setupWeatherTools(server: McpServer) {
         longitude: z.number(),
       }),
     },
+    {
+      title: "Get Weather by Coordinates",
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
     async ({ geocode }) => ({
       content: [
         {
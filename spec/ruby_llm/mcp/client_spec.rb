@@ -385,6 +385,61 @@ RSpec.describe RubyLLM::MCP::Client do
         expect(logger_double).to have_received(:error)
         RubyLLM::MCP.config.logger = nil
       end
+
+      it "filters by RFC 5424 severity, least to most severe" do
+        levels = []
+        client.on_logging(level: RubyLLM::MCP::Logging::NOTICE) do |notification|
+          levels << notification.params["level"]
+        end
+
+        %w[debug info notice warning error].each do |level|
+          client.tool("log_message").execute(message: "At #{level}", level: level)
+        end
+
+        expect(levels).to eq(%w[notice warning error])
+      end
+
+      it "passes structured data through unchanged" do
+        payloads = []
+        client.on_logging(level: RubyLLM::MCP::Logging::DEBUG) do |notification|
+          payloads << notification.params["data"]
+        end
+
+        client.tool("log_message").execute(data: { "job" => "import", "rows" => [1, 2] }, level: "info")
+        client.tool("log_message").execute(data: "plain string", level: "info")
+
+        expect(payloads).to eq([{ "job" => "import", "rows" => [1, 2] }, "plain string"])
+      end
+    end
+  end
+
+  # Each HTTP session has its own server, so log levels must not leak between clients
+  describe "per-session log levels" do
+    let(:options) { CLIENT_OPTIONS.find { |config| config[:name] == "streamable-native" }[:options] }
+    let(:verbose_client) { RubyLLM::MCP::Client.new(**options, name: "verbose-logging-client") }
+    let(:quiet_client) { RubyLLM::MCP::Client.new(**options, name: "quiet-logging-client") }
+
+    after do
+      verbose_client.stop
+      quiet_client.stop
+    end
+
+    it "keeps one session's logging/setLevel from changing another session's threshold" do
+      verbose_levels = []
+      quiet_levels = []
+      verbose_client.on_logging(level: RubyLLM::MCP::Logging::DEBUG) do |notification|
+        verbose_levels << notification.params["level"]
+      end
+      quiet_client.on_logging(level: RubyLLM::MCP::Logging::ERROR) do |notification|
+        quiet_levels << notification.params["level"]
+      end
+
+      verbose_client.tool("log_message").execute(message: "Verbose", level: "debug")
+      quiet_client.tool("log_message").execute(message: "Quiet", level: "debug")
+      quiet_client.tool("log_message").execute(message: "Quiet", level: "error")
+
+      expect(verbose_levels).to eq(["debug"])
+      expect(quiet_levels).to eq(["error"])
     end
   end
 
@@ -272,6 +272,126 @@ RSpec.describe RubyLLM::MCP::Elicitation do
     end
   end
 
+  describe "URL-mode Elicitation" do
+    # URL mode is only advertised when configured before the client starts
+    each_client_supporting(:elicitation) do |config|
+      let(:client) { RubyLLM::MCP::Client.new(**config[:options], start: false) }
+
+      before do
+        RubyLLM::MCP.configure do |mcp_config|
+          mcp_config.elicitation.url = true
+        end
+      end
+
+      after do
+        client.stop if client.alive?
+        MCPTestConfiguration.reset_config!
+        MCPTestConfiguration.configure_ruby_llm!
+      end
+
+      if config[:options][:transport_type] == :stdio
+        it "reports that the pages need the HTTP server" do
+          client.on_elicitation { |_elicitation| true }
+          client.start
+
+          result = wait_for_tool(client, "url_elicitation").execute
+
+          expect(result).to eq(
+            { error: "Tool execution error: URL-mode elicitation needs the HTTP server, which serves the pages" }
+          )
+        end
+      else
+        it "reports a declined URL elicitation" do
+          client.on_elicitation { |_elicitation| false }
+          client.start
+
+          result = wait_for_tool(client, "url_elicitation").execute(message: "Open the page to confirm")
+
+          expect(result).to be_a(RubyLLM::MCP::Content)
+          expect(result.to_s).to eq("URL elicitation was not accepted (action: decline)")
+        end
+
+        it "fails when the accepted page is not completed in time" do
+          messages = []
+          client.on_elicitation do |elicitation|
+            messages << elicitation.message
+            true
+          end
+          client.start
+
+          result = wait_for_tool(client, "url_elicitation").execute(message: "Open the page to confirm",
+                                                                    timeout_ms: 200)
+
+          expect(messages).to eq(["Open the page to confirm"])
+          expect(result).to eq(
+            { error: "Tool execution error: URL elicitation failed: Page was not completed within 200ms" }
+          )
+        end
+      end
+    end
+  end
+
+  describe "Elicitation Catalogue" do
+    each_client_supporting(:elicitation) do
+      it "accepts content matching every catalogue variant" do
+        client.on_elicitation do |elicitation|
+          elicitation.structured_response = {
+            "full_name" => "Ada Lovelace",
+            "email" => "ada@example.com",
+            "website" => "https://example.com",
+            "birthday" => "1815-12-10",
+            "meeting_at" => "2025-06-18T09:30:00Z",
+            "confidence" => 0.9,
+            "seats" => 2,
+            "subscribe" => true,
+            "color" => "green",
+            "plan" => "pro",
+            "size" => "m",
+            "toppings" => %w[cheese olive],
+            "days" => %w[mon fri]
+          }
+          true
+        end
+
+        result = client.tool("elicitation_catalogue").execute(variant: "all")
+
+        expect(result).to be_a(RubyLLM::MCP::Content)
+        expect(result.to_s).to start_with("Elicitation catalogue (all) returned")
+        expect(result.to_s).to end_with("Content matches the requested schema")
+      end
+
+      it "reports fields outside the requested schema" do
+        # Extra fields pass the client's own check since the schema doesn't
+        # forbid additional properties
+        client.on_elicitation do |elicitation|
+          elicitation.structured_response = { "color" => "red", "shade" => "dark" }
+          true
+        end
+
+        result = client.tool("elicitation_catalogue").execute(variant: "enum")
+
+        expect(result).to eq(
+          {
+            error: "Tool execution error: Elicitation catalogue (enum) returned " \
+                   "{\"color\":\"red\",\"shade\":\"dark\"}\n1 mismatch(es):\nshade: not in the requested schema"
+          }
+        )
+      end
+
+      it "cancels content the client rejects before sending it" do
+        client.on_elicitation do |elicitation|
+          elicitation.structured_response = { "color" => "purple" }
+          true
+        end
+
+        result = client.tool("elicitation_catalogue").execute(variant: "enum")
+
+        expect(result).to be_a(RubyLLM::MCP::Content)
+        expect(result.to_s).to eq("Elicitation catalogue (enum) was not accepted (action: cancel)")
+      end
+    end
+  end
+
   describe "Elicitation Response Validation" do
     let(:mock_coordinator) { instance_double(RubyLLM::MCP::Native::Client) }
     let(:mock_result) do
@@ -676,4 +676,34 @@ RSpec.describe RubyLLM::MCP::Native::Transports::SSE do
       end
     end
   end
+
+  describe "against the TypeScript fixture's legacy endpoint" do
+    let(:fixture_client) do
+      RubyLLM::MCP::Client.new(
+        name: "typescript-mcp-sse",
+        transport_type: :sse,
+        start: false,
+        config: {
+          url: "http://localhost:#{TestServerManager::PORTS[:http]}/sse",
+          version: :http1
+        }
+      )
+    end
+
+    after do
+      fixture_client.stop if fixture_client.alive?
+    end
+
+    it "serves the same tools, resources and prompts as /mcp" do
+      fixture_client.start
+
+      expect(fixture_client.tools.map(&:name)).to include("add", "fetch_site")
+      expect(fixture_client.tool("add").execute(a: 1, b: 2).to_s).to eq("3")
+
+      expect(fixture_client.resource("test.txt").content).not_to be_empty
+
+      messages = fixture_client.prompt("say_hello").fetch
+      expect(messages.first.content).to eq("Hello, how are you? Can you also say Hello back?")
+    end
+  end
 end
@@ -159,6 +159,53 @@ RSpec.describe RubyLLM::MCP::Native::Transports::StreamableHTTP do
     end
   end
 
+  describe "resuming a dropped stream" do
+    it "replays the events missed while disconnected when reconnecting with Last-Event-ID" do
+      client.start
+      progress = []
+      client.on_progress { |update| progress << update.progress }
+
+      transport = client.adapter.native_client.transport.transport_protocol
+      headers = {
+        "Accept" => "application/json, text/event-stream",
+        "Mcp-Session-Id" => transport.session_id,
+        "MCP-Protocol-Version" => transport.protocol_version
+      }
+
+      # The fixture closes this response stream after step 2 and keeps the rest
+      # in its event store until the client comes back for them
+      dropped = HTTPX.with(headers: headers).post(
+        TestServerManager::HTTP_SERVER_URL,
+        json: {
+          jsonrpc: "2.0",
+          id: "resume-1",
+          method: "tools/call",
+          params: {
+            name: "progress_with_disconnect",
+            arguments: { reconnect_wait_ms: 2_000 },
+            _meta: { progressToken: "resume-spec" }
+          }
+        }
+      )
+      expect(dropped.to_s).to include('"progress":2')
+      expect(dropped.to_s).not_to include('"progress":3')
+
+      last_event_id = dropped.to_s.scan(/^id: (.+)$/).flatten.last
+      replayed_ids = []
+      options = RubyLLM::MCP::Native::Transports::StartSSEOptions.new(
+        resumption_token: last_event_id,
+        on_resumption_token: ->(event_id) { replayed_ids << event_id }
+      )
+      transport.send(:start_sse, options)
+
+      expect(progress).to eq([3, 4])
+      expect(replayed_ids.length).to eq(3)
+      expect(replayed_ids).to all(be > last_event_id)
+
+      client.stop
+    end
+  end
+
   describe "HTTP error handling" do
     before do
       WebMock.enable!
@@ -186,4 +186,112 @@ RSpec.describe "OAuth Authentication" do # rubocop:disable RSpec/DescribeClass
       end.not_to raise_error
     end
   end
+
+  describe "against the fixture's --auth mode" do
+    let(:provider) do
+      RubyLLM::MCP::Auth::OAuthProvider.new(
+        server_url: TestServerManager::AUTH_SERVER_URL,
+        redirect_uri: "http://localhost:8080/callback"
+      )
+    end
+
+    let(:client) do
+      RubyLLM::MCP::Client.new(
+        name: "auth-fixture-client",
+        transport_type: :streamable,
+        request_timeout: 10_000,
+        start: false,
+        config: {
+          url: TestServerManager::AUTH_SERVER_URL,
+          oauth: provider
+        }
+      )
+    end
+
+    after do
+      client.stop if client.alive?
+    end
+
+    # The fixture approves authorization requests without a consent screen, so
+    # reading its redirect stands in for the browser round trip
+    def authorization_redirect(provider)
+      response = HTTPX.get(provider.start_authorization_flow)
+      URI.decode_www_form(URI.parse(response.headers["location"]).query).to_h
+    end
+
+    it "challenges unauthenticated requests with a 401 pointing at the resource metadata" do
+      response = HTTPX.post(
+        TestServerManager::AUTH_SERVER_URL,
+        json: { jsonrpc: "2.0", id: 1, method: "tools/list" },
+        headers: { "Accept" => "application/json, text/event-stream" }
+      )
+
+      expect(response.status).to eq(401)
+      expect(response.headers["www-authenticate"]).to include(
+        "/.well-known/oauth-protected-resource/mcp"
+      )
+    end
+
+    it "runs discovery, registration and the PKCE code flow before talking to /mcp" do
+      redirect = authorization_redirect(provider)
+      token = provider.complete_authorization_flow(redirect["code"], redirect["state"])
+
+      expect(token.scope).to eq("read")
+
+      client.start
+      expect(client.tool("add").execute(a: 1, b: 2).to_s).to eq("3")
+    end
+
+    it "refuses a scope it does not support with invalid_scope" do
+      provider.scope = "read unknown"
+
+      redirect = authorization_redirect(provider)
+
+      expect(redirect["error"]).to eq("invalid_scope")
+      expect(redirect["error_description"]).to include("unknown")
+      expect(provider.access_token).to be_nil
+    end
+
+    it "rotates the refresh token and revokes the grant when a rotated one is replayed" do
+      redirect = authorization_redirect(provider)
+      original = provider.complete_authorization_flow(redirect["code"], redirect["state"])
+
+      # Expire the stored token so the next lookup has to refresh it
+      expire = lambda do |token|
+        RubyLLM::MCP::Auth::Token.new(
+          access_token: token.access_token,
+          refresh_token: token.refresh_token,
+          expires_in: -1
+        )
+      end
+
+      provider.storage.set_token(provider.server_url, expire.call(original))
+      refreshed = provider.access_token
+
+      expect(refreshed.access_token).not_to eq(original.access_token)
+      expect(refreshed.refresh_token).not_to eq(original.refresh_token)
+
+      provider.storage.set_token(provider.server_url, expire.call(original))
+      expect(provider.access_token).to be_nil
+
+      provider.storage.set_token(provider.server_url, refreshed)
+      expect { client.start }.to raise_error(RubyLLM::MCP::Errors::AuthenticationRequiredError)
+    end
+
+    it "asks for the write scope when a tool answers 403 insufficient_scope" do
+      redirect = authorization_redirect(provider)
+      provider.complete_authorization_flow(redirect["code"], redirect["state"])
+      client.start
+
+      tool = client.tool("upgrade_auth")
+      expect { tool.execute(permission: "write") }.to raise_error(RubyLLM::MCP::Errors::AuthenticationRequiredError)
+      expect(provider.scope).to eq("write")
+
+      redirect = authorization_redirect(provider)
+      token = provider.complete_authorization_flow(redirect["code"], redirect["state"])
+
+      expect(token.scope).to eq("write")
+      expect(tool.execute(permission: "write").to_s).to match(/\AUpgraded from \w+ to write\z/)
+    end
+  end
 end
@@ -0,0 +1,167 @@
+# frozen_string_literal: true
+
+require "spec_helper"
+
+RSpec.describe "Pagination Integration" do # rubocop:disable RSpec/DescribeClass
+  # Each example group runs its own pagination server over stdio, so it can pick
+  # the page size and catalog it needs without affecting the shared HTTP server
+  let(:server_flags) { [] }
+  let(:client) do
+    RubyLLM::MCP::Client.new(
+      name: "pagination-stdio-client",
+      transport_type: :stdio,
+      request_timeout: 10_000,
+      start: false,
+      config: {
+        command: "bun",
+        args: ["spec/fixtures/pagination-server/index.ts", "--stdio", "--silent", *server_flags]
+      }
+    )
+  end
+
+  after do
+    client.stop if client.alive?
+  end
+
+  def first_page(client, request)
+    client.adapter.native_client.request(RubyLLM::MCP::Native::Messages::Requests.public_send(request)).value
+  end
+
+  def invalid_cursor_error(reason)
+    /code: -32602 \(invalid_params\), message: MCP error -32602: Invalid cursor: #{reason}/
+  end
+
+  context "with a page size of 5 over a generated catalog of 40" do
+    let(:server_flags) { ["--page-size", "5", "--catalog-size", "40"] }
+
+    it "follows nextCursor across every page of tools/list" do
+      client.start
+      allow(client.adapter.native_client).to receive(:tool_list).and_call_original
+
+      names = client.tools.map(&:name)
+
+      expect(names.size).to eq(42)
+      expect(names.uniq.size).to eq(42)
+      expect(names.first(3)).to eq(%w[add_numbers multiply_numbers generated_tool_001])
+      expect(names.last).to eq("generated_tool_040")
+      expect(client.adapter.native_client).to have_received(:tool_list).exactly(9).times
+    end
+
+    it "follows nextCursor across every page of resources/list and resources/templates/list" do
+      client.start
+
+      resource_names = client.resources.map(&:name)
+      template_names = client.resource_templates.map(&:name)
+
+      expect(resource_names.size).to eq(42)
+      expect(resource_names.last).to eq("Generated Resource 040")
+      expect(template_names.size).to eq(42)
+      expect(template_names.last).to eq("Generated Template 040")
+    end
+
+    it "follows nextCursor across every page of prompts/list" do
+      client.start
+      allow(client.adapter.native_client).to receive(:prompt_list).and_call_original
+
+      names = client.prompts.map(&:name)
+
+      expect(names.size).to eq(42)
+      expect(names.uniq.size).to eq(42)
+      expect(names.first(3)).to eq(%w[code_review summarize_text generated_prompt_001])
+      expect(client.adapter.native_client).to have_received(:prompt_list).exactly(9).times
+    end
+
+    it "gets a prompt that was only listed on the last page" do
+      client.start
+
+      messages = client.prompt("generated_prompt_040").fetch(topic: "cursors")
+
+      expect(messages.first.content).to eq("generated_prompt_040: write about cursors")
+    end
+  end
+
+  context "with cursors the server did not issue as they are" do
+    it "rejects a malformed cursor with -32602" do
+      client.start
+
+      expect { client.adapter.native_client.tool_list(cursor: "page_2") }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, invalid_cursor_error("malformed"))
+    end
+
+    it "rejects a cursor whose signature no longer matches with -32602" do
+      client.start
+      cursor = first_page(client, :tool_list)["nextCursor"]
+      # Changing the payload, not the signature: the last signature character
+      # carries padding bits, so swapping it can leave the decoded bytes intact
+      tampered = (cursor.start_with?("e") ? "f" : "e") + cursor[1..]
+
+      expect { client.adapter.native_client.tool_list(cursor: tampered) }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, invalid_cursor_error("signature mismatch"))
+    end
+
+    it "rejects a cursor issued for another list with -32602" do
+      client.start
+      cursor = first_page(client, :tool_list)["nextCursor"]
+
+      expect { client.adapter.native_client.resource_list(cursor: cursor) }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, invalid_cursor_error("not a resources cursor"))
+    end
+  end
+
+  context "with cursors that expire as soon as they are issued" do
+    let(:server_flags) { ["--cursor-ttl-ms", "0"] }
+
+    it "fails the listing on the expired second-page cursor" do
+      client.start
+
+      expect { client.tools }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, invalid_cursor_error("expired"))
+    end
+  end
+
+  # The server changes the catalog right after serving the first page of a
+  # listing and sends the matching list_changed before the client asks for more
+  context "with a catalog that inserts an item mid-listing" do
+    let(:server_flags) { ["--page-size", "2", "--catalog-size", "5", "--mutate-catalog", "insert"] }
+
+    it "picks up the inserted item on a later page and hears list_changed" do
+      client.start
+      allow(client).to receive(:reset_tools!).and_call_original
+
+      names = client.tools.map(&:name)
+      sleep 0.2
+
+      expect(names).to eq(%w[add_numbers multiply_numbers] + (1..6).map { |i| format("generated_tool_%03d", i) })
+      expect(client).to have_received(:reset_tools!).at_least(:once)
+      expect(client.tools(refresh: true).map(&:name).last).to eq("generated_tool_007")
+    end
+  end
+
+  context "with a catalog that deletes an item mid-listing" do
+    let(:server_flags) { ["--page-size", "2", "--catalog-size", "5", "--mutate-catalog", "delete"] }
+
+    it "neither repeats nor skips the items that are still listed" do
+      client.start
+
+      names = client.tools.map(&:name)
+
+      expect(names).to eq(%w[add_numbers multiply_numbers] + (2..5).map { |i| format("generated_tool_%03d", i) })
+    end
+  end
+
+  context "with a catalog that alternates inserts and deletes" do
+    let(:server_flags) { ["--page-size", "2", "--catalog-size", "5", "--mutate-catalog", "alternate"] }
+
+    it "reflects each change on the next listing" do
+      client.start
+
+      first_listing = client.tools.map(&:name)
+      second_listing = client.tools(refresh: true).map(&:name)
+
+      expect(first_listing).to include("generated_tool_001", "generated_tool_006")
+      expect(second_listing).not_to include("generated_tool_001")
+      expect(second_listing).to include("generated_tool_006")
+      expect(second_listing.uniq).to eq(second_listing)
+    end
+  end
+end
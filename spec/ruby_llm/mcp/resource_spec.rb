@@ -1,5 +1,7 @@
 # frozen_string_literal: true
 
+require "tmpdir"
+
 RSpec.describe RubyLLM::MCP::Resource do
   before(:all) do # rubocop:disable RSpec/BeforeAfterAll
     ClientRunner.build_client_runners(CLIENT_OPTIONS)
@@ -192,6 +194,51 @@ RSpec.describe RubyLLM::MCP::Resource do
         tool = client.tool("changes_plain_text_resource")
         tool.execute
       end
+
+      it "stops resetting the resource content after unsubscribing" do
+        resource = client.resource("plain_text.txt")
+        tool = client.tool("changes_plain_text_resource")
+
+        resource.subscribe!
+        resource.content
+        tool.execute
+        sleep 0.2
+        expect(resource.content_loaded?).to be(false)
+
+        resource.unsubscribe!
+        resource.content
+        tool.execute
+        sleep 0.2
+        expect(resource.content_loaded?).to be(true)
+        expect(resource.subscribed).to be(false)
+      end
+    end
+  end
+
+  # Updates only go to the sessions that subscribed to the resource
+  describe "against two streamable sessions" do
+    let(:options) { CLIENT_OPTIONS.find { |config| config[:name] == "streamable-native" }[:options] }
+    let(:subscriber) { RubyLLM::MCP::Client.new(**options, name: "subscriber-client") }
+    let(:bystander) { RubyLLM::MCP::Client.new(**options, name: "bystander-client") }
+
+    after do
+      subscriber.stop
+      bystander.stop
+    end
+
+    it "only notifies the session that subscribed" do
+      subscribed_resource = subscriber.resource("plain_text.txt")
+      subscribed_resource.subscribe!
+      subscribed_resource.content
+
+      bystander_resource = bystander.resource("plain_text.txt")
+      bystander_resource.content
+
+      bystander.tool("changes_plain_text_resource").execute
+      sleep 0.5
+
+      expect(subscribed_resource.content_loaded?).to be(false)
+      expect(bystander_resource.content_loaded?).to be(true)
     end
   end
 
@@ -257,5 +304,75 @@ RSpec.describe RubyLLM::MCP::Resource do
         expect(result.to_s).to include("JSON Report")
       end
     end
+
+    each_client(adapter: :ruby_llm) do
+      it "links to a report resource that can be read back" do
+        result = client.adapter.native_client.execute_tool(
+          name: "create_report",
+          parameters: { title: "Linked Report", content: "Quarterly numbers", format: "json" }
+        )
+        link = result.value["content"].find { |part| part["type"] == "resource_link" }
+
+        expect(link).to include(
+          "uri" => start_with("report://report-"),
+          "title" => "Linked Report",
+          "mimeType" => "application/json"
+        )
+
+        report = JSON.parse(RubyLLM::MCP::Resource.new(client.adapter, link).content)
+        expect(report).to include("title" => "Linked Report", "content" => "Quarterly numbers")
+        expect(client.resources(refresh: true).map(&:uri)).to include(link["uri"])
+      end
+    end
+  end
+
+  describe "against a watched directory" do
+    let(:watch_dir) { Dir.mktmpdir("watched-resources") }
+    let(:notes_path) { File.join(watch_dir, "notes.txt") }
+    let(:client) do
+      options = CLIENT_OPTIONS.find { |config| config[:name] == "stdio-native" }[:options]
+      config = options[:config].merge(args: options[:config][:args] + ["--watch-dir", watch_dir])
+      RubyLLM::MCP::Client.new(**options, name: "watched-directory-client", config: config)
+    end
+
+    before do
+      File.write(notes_path, "first draft")
+    end
+
+    after do
+      client.stop if client.alive?
+      FileUtils.rm_rf(watch_dir)
+    end
+
+    it "exposes the directory's files as file:// resources" do
+      resource = client.resource("notes.txt")
+
+      expect(resource.uri).to eq("file://#{notes_path}")
+      expect(resource.content).to eq("first draft")
+    end
+
+    it "lists files as they are created and deleted" do
+      expect(client.resources.map(&:name)).to include("notes.txt")
+
+      File.write(File.join(watch_dir, "todo.md"), "todo")
+      sleep 0.5
+      expect(client.resources.map(&:name)).to include("todo.md")
+
+      File.delete(notes_path)
+      sleep 0.5
+      expect(client.resources.map(&:name)).not_to include("notes.txt")
+    end
+
+    it "resets a subscribed file's content when it is edited" do
+      resource = client.resource("notes.txt")
+      resource.subscribe!
+      expect(resource.content).to eq("first draft")
+
+      File.write(notes_path, "second draft")
+      sleep 0.5
+
+      expect(resource.content_loaded?).to be(false)
+      expect(resource.content).to eq("second draft")
+    end
   end
 end
@@ -1,6 +1,7 @@
 # frozen_string_literal: true
 
 require "spec_helper"
+require "tmpdir"
 
 RSpec.describe RubyLLM::MCP::Roots do
   let(:adapter) do
@@ -138,5 +139,61 @@ RSpec.describe RubyLLM::MCP::Roots do
       expect(first_result.to_s).to include("file://path/to/file2")
       expect(second_result.to_s).not_to include("file://path/to/file2")
     end
+
+    describe "sandboxed filesystem tools" do
+      let(:sandbox) { File.realpath(Dir.mktmpdir("roots-sandbox")) }
+      let(:workspace) { File.join(sandbox, "workspace") }
+      let(:elsewhere) { File.join(sandbox, "elsewhere") }
+
+      before do
+        FileUtils.mkdir_p(File.join(workspace, "docs"))
+        FileUtils.mkdir_p(elsewhere)
+        File.write(File.join(workspace, "notes.txt"), "inside the root")
+        File.write(File.join(workspace, "docs", "guide.md"), "# Guide")
+        File.write(File.join(elsewhere, "secret.txt"), "outside the root")
+        File.symlink(File.join(elsewhere, "secret.txt"), File.join(workspace, "shortcut.txt"))
+      end
+
+      after do
+        FileUtils.rm_rf(sandbox)
+      end
+
+      it "reads, lists and searches inside the client roots" do
+        RubyLLM::MCP.config.roots = [workspace]
+        client.start
+
+        expect(client.tool("read_file").execute(path: "notes.txt").to_s).to eq("inside the root")
+        expect(client.tool("list_dir").execute.to_s).to eq("docs/\nnotes.txt\nshortcut.txt")
+        expect(client.tool("search_files").execute(pattern: "GUIDE").to_s)
+          .to eq(File.join(workspace, "docs", "guide.md"))
+      end
+
+      it "refuses paths that resolve outside the client roots" do
+        RubyLLM::MCP.config.roots = [workspace]
+        client.start
+        tool = client.tool("read_file")
+
+        [File.join(elsewhere, "secret.txt"), "../elsewhere/secret.txt", "shortcut.txt"].each do |path|
+          expect(tool.execute(path: path)).to eq(
+            error: "Tool execution error: Access denied: #{path} is outside the client roots"
+          )
+        end
+      end
+
+      it "re-queries the roots after the client reports they changed" do
+        RubyLLM::MCP.config.roots = [workspace]
+        client.start
+        tool = client.tool("read_file")
+        secret = File.join(elsewhere, "secret.txt")
+
+        expect(tool.execute(path: secret)).to have_key(:error)
+
+        client.roots.remove(workspace)
+        client.roots.add(elsewhere)
+
+        expect(tool.execute(path: secret).to_s).to eq("outside the root")
+        expect(tool.execute(path: File.join(workspace, "notes.txt"))).to have_key(:error)
+      end
+    end
   end
 end
@@ -241,6 +241,98 @@ RSpec.describe RubyLLM::MCP::Sample do
       expect(result.to_s).to include("handler class rejection")
     end
 
+    it "refuses sample_with_tools unless the client advertises the sampling tools capability" do
+      RubyLLM::MCP.configure do |config|
+        config.sampling.enabled = true
+        config.sampling.preferred_model = "gpt-4o"
+      end
+      client.start
+
+      tool = wait_for_tool(client, "sample_with_tools")
+
+      expect(tool.execute).to eq(
+        { error: "Tool execution error: Client does not support sampling tools capability" }
+      )
+    end
+
+    it "ends the sample_with_tools loop once the model answers without tool_use" do
+      prompts = []
+      handler_class = Class.new(RubyLLM::MCP::Handlers::SamplingHandler) do
+        define_method(:execute) do
+          prompts << sample.message
+          accept("It is sunny in Paris, and 2 + 3 = 5")
+        end
+      end
+
+      RubyLLM::MCP.configure do |config|
+        config.sampling.enabled = true
+        config.sampling.tools = true
+        config.sampling.preferred_model = "gpt-4o"
+      end
+
+      client.on_sampling(handler_class)
+      client.start
+
+      tool = wait_for_tool(client, "sample_with_tools")
+      result = tool.execute(prompt: "What's the weather in Paris, and what is 2 + 3?")
+
+      expect(prompts).to eq(["What's the weather in Paris, and what is 2 + 3?"])
+      expect(result.to_s).to eq(
+        "Final answer after 1 turn(s) (stopReason: endTurn, model: gpt-4o):\nIt is sunny in Paris, and 2 + 3 = 5"
+      )
+    end
+
+    it "hands every sample_scenario option to the handler and echoes the answer back" do
+      samples = []
+      handler_class = Class.new(RubyLLM::MCP::Handlers::SamplingHandler) do
+        define_method(:execute) do
+          samples << sample
+          accept("A dog and a jackhammer")
+        end
+      end
+
+      RubyLLM::MCP.configure do |config|
+        config.sampling.enabled = true
+        config.sampling.preferred_model = "gpt-4o"
+      end
+
+      client.on_sampling(handler_class)
+      client.start
+
+      tool = wait_for_tool(client, "sample_scenario")
+      result = tool.execute(
+        history: "mixed",
+        include_context: "thisServer",
+        system_prompt: "Be brief.",
+        stop_sequences: ["END"],
+        temperature: 0.3,
+        max_tokens: 64,
+        metadata: { suite: "guardrails" },
+        model_hints: ["claude-3-haiku"],
+        cost_priority: 0.2,
+        speed_priority: 0.5,
+        intelligence_priority: 0.9
+      )
+
+      sample = samples.first
+      expect(sample.system_prompt).to eq("Be brief.")
+      expect(sample.max_tokens).to eq(64)
+      expect(sample.raw_messages.map { |message| message.dig("content", "type") })
+        .to eq(%w[text image text text audio text])
+      expect(sample.model_preferences.to_h).to include(
+        hints: ["claude-3-haiku"],
+        cost_priority: 0.2,
+        speed_priority: 0.5,
+        intelligence_priority: 0.9
+      )
+
+      expect(result.to_s).to include(
+        '"includeContext":"thisServer","stopSequences":["END"],"temperature":0.3,"metadata":{"suite":"guardrails"}',
+        '"model":"gpt-4o","stopReason":"endTurn","role":"assistant"',
+        '"content":{"type":"text","text":"A dog and a jackhammer"}'
+      )
+    end
+
     COMPLEX_FUNCTION_MODELS.each do |model|
       context "with #{model[:provider]} #{model[:model]}" do
         it "executes a chat message and provides information to the server without a guard" do
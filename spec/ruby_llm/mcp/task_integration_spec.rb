@@ -23,6 +23,13 @@ RSpec.describe "Task Integration" do # rubocop:disable RSpec/DescribeClass
     match&.captures&.first
   end
 
+  # Sends tools/call with params.task and returns the id of the task it creates
+  def start_task_augmented_call(client, name, arguments, ttl: 60_000)
+    body = RubyLLM::MCP::Native::Messages::Requests.tool_call(name: name, parameters: arguments)
+    body[:params][:task] = { ttl: ttl }
+    client.adapter.native_client.request(body).value.dig("task", "taskId")
+  end
+
   def wait_for_task(client, task_id, statuses:, timeout: 8)
     deadline = Time.now + timeout
     observed_statuses = []
@@ -77,6 +84,129 @@ RSpec.describe "Task Integration" do # rubocop:disable RSpec/DescribeClass
       task = wait_for_task(client, task_id, statuses: ["cancelled"])
       expect(task.status_message).to include("Cancelled")
     end
+
+    it "never lets a cancelled background task report completed (e2e)" do
+      client.start
+      tool = wait_for_tool(client, "start_background_task")
+
+      task_id = extract_task_id(tool.execute(prompt: "Should never complete", delay_ms: 300))
+      client.task_cancel(task_id)
+      sleep 0.6
+
+      expect(client.task_get(task_id).status).to eq("cancelled")
+      expect(client.task_result(task_id).dig("content", 0, "text")).to eq("Task cancelled without a result")
+    end
+
+    it "aborts a tool running under a cancelled task (e2e)" do
+      client.start
+      wait_for_tool(client, "timeout_tool")
+
+      task_id = start_task_augmented_call(client, "timeout_tool", { seconds: 1 })
+      expect(client.task_cancel(task_id).cancelled?).to be(true)
+      sleep 1.5
+
+      expect(client.task_get(task_id).status).to eq("cancelled")
+      payload = client.task_result(task_id)
+      expect(payload["isError"]).to be(true)
+      expect(payload.dig("content", 0, "text")).to eq("Task cancelled without a result")
+    end
+
+    it "answers a task-augmented tools/call with a task and serves the tool result from tasks/result (e2e)" do
+      client.start
+      wait_for_tool(client, "add")
+
+      body = RubyLLM::MCP::Native::Messages::Requests.tool_call(name: "add", parameters: { a: 2, b: 3 })
+      body[:params][:task] = { ttl: 60_000 }
+      created = client.adapter.native_client.request(body)
+
+      task_id = created.value.dig("task", "taskId")
+      expect(task_id).to start_with("task-")
+      expect(created.value.dig("task", "status")).to eq("working")
+      expect(created.value).not_to have_key("content")
+
+      completed_task = wait_for_task(client, task_id, statuses: ["completed"])
+      expect(completed_task.completed?).to be(true)
+
+      payload = client.task_result(task_id)
+      expect(payload.dig("content", 0, "text")).to eq("5")
+      expect(payload.dig("_meta", "io.modelcontextprotocol/related-task", "taskId")).to eq(task_id)
+    end
+
+    it "answers unknown task ids with a JSON-RPC error instead of a task" do
+      client.start
+
+      expect { client.task_get("task-missing") }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, /Task not found: task-missing/)
+    end
+
+    it "evicts a task once its ttl has elapsed (e2e)" do
+      client.start
+      wait_for_tool(client, "add")
+
+      task_id = start_task_augmented_call(client, "add", { a: 1, b: 1 }, ttl: 200)
+      wait_for_task(client, task_id, statuses: ["completed"])
+      sleep 0.4
+
+      expect { client.task_get(task_id) }.to raise_error(RubyLLM::MCP::Errors::ResponseError, /Task not found/)
+    end
+
+    it "pages tasks/list with opaque cursors (e2e)" do
+      client.start
+      wait_for_tool(client, "add")
+
+      task_ids = Array.new(12) { |index| start_task_augmented_call(client, "add", { a: index, b: 1 }) }
+      allow(client.adapter.native_client).to receive(:tasks_list).and_call_original
+
+      expect(client.tasks_list.map(&:task_id)).to include(*task_ids)
+      expect(client.adapter.native_client).to have_received(:tasks_list).at_least(:twice)
+    end
+  end
+
+  # Each HTTP session has its own server, and tasks belong to the session that created them
+  describe "per-session task scoping" do
+    let(:options) { CLIENT_OPTIONS.find { |config| config[:name] == "streamable-native" }[:options] }
+    let(:owner_client) { RubyLLM::MCP::Client.new(**options, name: "task-owner-client") }
+    let(:other_client) { RubyLLM::MCP::Client.new(**options, name: "task-other-client") }
+
+    after do
+      owner_client.stop
+      other_client.stop
+    end
+
+    it "hides a session's tasks from every other session (e2e)" do
+      task_id = start_task_augmented_call(owner_client, "add", { a: 1, b: 2 })
+
+      expect(other_client.tasks_list.map(&:task_id)).not_to include(task_id)
+      expect { other_client.task_get(task_id) }
+        .to raise_error(RubyLLM::MCP::Errors::ResponseError, /Task not found/)
+      expect(owner_client.task_get(task_id).task_id).to eq(task_id)
+    end
+  end
+
+  each_client_supporting(:tasks, :elicitation) do |config|
+    let(:client) { RubyLLM::MCP::Client.new(**config[:options], start: false) }
+
+    it "parks a task in input_required until the client answers its elicitation (e2e)" do
+      statuses_when_asked = []
+      client.on_elicitation do |elicitation|
+        statuses_when_asked.concat(client.adapter.native_client.task_registry.tasks.map { |task| task["status"] })
+        elicitation.structured_response = { "answer" => "Ship it" }
+        true
+      end
+
+      client.start
+      tool = wait_for_tool(client, "start_input_required_task")
+
+      response = tool.execute(prompt: "What should the task do next?", mode: "elicitation")
+      task_id = extract_task_id(response)
+
+      completed_task = wait_for_task(client, task_id, statuses: ["completed"])
+      expect(completed_task.completed?).to be(true)
+      expect(statuses_when_asked).to eq(["input_required"])
+
+      payload = client.task_result(task_id)
+      expect(payload.dig("content", 0, "text")).to eq('Elicitation accept: {"answer":"Ship it"}')
+    end
   end
 
   each_client_supporting(:tasks, :sampling) do |config|
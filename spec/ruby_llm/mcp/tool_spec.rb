@@ -146,6 +146,50 @@ RSpec.describe RubyLLM::MCP::Tool do
         expect(result).to be_a(RubyLLM::MCP::Content)
         expect(result.to_s).to include("Example Domain")
       end
+
+      it "follows fetch_site redirects up to the limit" do
+        tool = client.tool("fetch_site")
+
+        result = tool.execute(website: "https://www.example.com/redirect/5")
+        expect(result.to_s).to start_with("Website content from https://www.example.com/redirect/5:")
+        expect(result.to_s).to include("Example Domain")
+
+        expect(tool.execute(website: "https://www.example.com/redirect/6")).to eq(
+          { error: "Tool execution error: Error fetching website content: Too many redirects (more than 5)" }
+        )
+      end
+
+      it "returns fetch_site HTTP errors and unsupported URLs as tool errors" do
+        tool = client.tool("fetch_site")
+
+        expect(tool.execute(website: "https://www.example.com/status/503")).to eq(
+          { error: "Tool execution error: Error fetching website content: HTTP 503: Service Unavailable" }
+        )
+        expect(tool.execute(website: "https://www.example.com/missing")).to eq(
+          { error: "Tool execution error: Error fetching website content: HTTP 404: Not Found" }
+        )
+        expect(tool.execute(website: "https://www.example.com/redirect-to?url=ftp://www.example.com/")).to eq(
+          { error: "Tool execution error: Error fetching website content: Only HTTP and HTTPS URLs are supported" }
+        )
+      end
+    end
+  end
+
+  describe "fetch_site with a short timeout" do
+    let(:client) do
+      options = CLIENT_OPTIONS.find { |config| config[:name] == "stdio-native" }[:options]
+      config = options[:config].merge(env: options[:config][:env].merge("FETCH_SITE_TIMEOUT_MS" => "300"))
+      RubyLLM::MCP::Client.new(**options, name: "fetch-site-timeout-client", config: config)
+    end
+
+    after do
+      client.stop if client.alive?
+    end
+
+    it "gives up on a slow page once the timeout elapses" do
+      result = client.tool("fetch_site").execute(website: "https://www.example.com/slow?ms=2000")
+
+      expect(result).to eq({ error: "Tool execution error: Error fetching website content: Timed out after 300ms" })
     end
   end
 
@@ -245,43 +289,53 @@ RSpec.describe RubyLLM::MCP::Tool do
   end
 
   describe "Structured Tool Output (2025-06-18)" do
-    each_client do |_config|
+    # The MCP SDK adapter drops structuredContent, so only the native adapter
+    # validates it and returns it as JSON
+    each_client(adapter: :ruby_llm) do |_config|
       it "validates structured output against output schema" do
         tool = client.tool("structured_data_analyzer")
         expect(tool).to be_a(RubyLLM::MCP::Tool)
+        expect(tool.output_schema).to be_a(Hash)
 
         result = tool.execute(data: "Hello world this is a test", format: "summary")
         expect(result).to be_a(RubyLLM::MCP::Content)
 
-        # Check if structured content is available and validated
-        if result.respond_to?(:structured_content)
-          expect(result.structured_content).to be_a(Hash)
-          expect(result.structured_content).to have_key("word_count")
-          expect(result.structured_content).to have_key("character_count")
-          expect(result.structured_content).to have_key("analysis_type")
-          expect(result.structured_content["word_count"]).to be_a(Numeric)
-          expect(result.structured_content["character_count"]).to be_a(Numeric)
-        end
+        structured_content = JSON.parse(result.to_s)
+        expect(structured_content).to include(
+          "word_count" => 6,
+          "character_count" => 26,
+          "analysis_type" => "summary"
+        )
+        expect(structured_content["top_words"]).to all(include("word", "count"))
+        expect(structured_content["statistics"]).to include("longest_word" => "Hello")
       end
 
-      it "handles invalid structured output gracefully" do
+      it "returns an error when structured output breaks the declared schema" do
         tool = client.tool("invalid_structured_output")
-        expect(tool).to be_a(RubyLLM::MCP::Tool)
+        expect(tool.output_schema).to include("required" => %w[valid_field required_field status tags details])
 
-        # This should trigger validation error for structured output
         result = tool.execute(trigger_error: true)
 
-        # The tool should still return content, but structured validation may fail
-        expect(result).to be_a(RubyLLM::MCP::Content)
-        expect(result.to_s).to include("Invalid structured data")
+        invalid_structured_content = {
+          "valid_field" => "not_a_number",
+          "status" => "unknown",
+          "tags" => "alpha,beta",
+          "details" => { "code" => "E42" }
+        }
+        expect(result).to eq({ error: "Structured output is not valid: #{invalid_structured_content}" })
       end
 
-      it "returns valid structured output when schema is satisfied" do
-        tool = client.tool("invalid_structured_output")
+      it "returns the structured content as JSON when it satisfies the declared schema" do
+        result = client.tool("invalid_structured_output").execute(trigger_error: false)
 
-        result = tool.execute(trigger_error: false)
         expect(result).to be_a(RubyLLM::MCP::Content)
-        expect(result.to_s).to include("Valid output")
+        expect(JSON.parse(result.to_s)).to eq(
+          "valid_field" => 123,
+          "required_field" => "present",
+          "status" => "ok",
+          "tags" => %w[alpha beta],
+          "details" => { "code" => 42, "message" => "All good" }
+        )
       end
     end
   end
@@ -316,18 +370,20 @@ RSpec.describe RubyLLM::MCP::Tool do
   end
 
   describe "Tool Annotations and Enhanced Metadata (2025-06-18)" do
-    each_client do
+    # The MCP SDK adapter doesn't carry tool annotations over
+    each_client(adapter: :ruby_llm) do
       it "supports tool annotations for better UX" do
         tool = client.tool("complex_calculation")
         expect(tool).to be_a(RubyLLM::MCP::Tool)
 
-        # Check if tool provides annotation information
-        if tool.respond_to?(:annotations)
-          annotations = tool.annotations
-          expect(annotations).to be_a(Hash) if annotations
-        end
+        annotations = tool.annotations
+        expect(annotations).to be_a(RubyLLM::MCP::Annotation)
+        expect(annotations.title).to eq("Calculate Expression")
+        expect(annotations.read_only_hint).to be(true)
       end
+    end
 
+    each_client do
       it "executes annotated tools correctly" do
         tool = client.tool("complex_calculation")
 
@@ -1199,22 +1255,22 @@ RSpec.describe RubyLLM::MCP::Tool do
   end
 
   describe "end-to-end structured content output validation" do
-    each_client do |_config|
-      it "validates structured output and returns text content on success" do
+    # Only the native adapter passes structuredContent through
+    each_client(adapter: :ruby_llm) do |_config|
+      it "validates structured output and returns it as JSON on success" do
         tool = client.tool("structured_data_analyzer")
         expect(tool).to be_a(RubyLLM::MCP::Tool)
 
         result = tool.execute(data: "Hello world this is a test", format: "summary")
 
-        # Tool should return text content (not the structured data)
-        # Structured data is for validation only
-        if result.is_a?(String)
-          expect(result).to include("Analysis completed")
-        elsif result.is_a?(RubyLLM::MCP::Content)
-          expect(result.to_s).to include("Analysis completed")
-        end
+        # The validated structured content replaces the text content
+        expect(result).to be_a(RubyLLM::MCP::Content)
+        expect(result.to_s).not_to include("Analysis completed")
+        expect(JSON.parse(result.to_s)).to include("word_count" => 6, "analysis_type" => "summary")
       end
+    end
 
+    each_client do |_config|
       it "handles tools returning resource content type" do
         tool = client.tool("create_report")
         expect(tool).to be_a(RubyLLM::MCP::Tool)
@@ -7,12 +7,14 @@ class TestServerManager
   PORTS = {
     http: ENV.fetch("PORT1", 3005),
     sse: ENV.fetch("PORT2", 3006),
-    pagination: ENV.fetch("PORT3", 3007)
+    pagination: ENV.fetch("PORT3", 3007),
+    auth: ENV.fetch("PORT4", 3008)
   }.freeze
 
   HTTP_SERVER_URL = "http://localhost:#{PORTS[:http]}/mcp".freeze
   PAGINATION_SERVER_URL = "http://localhost:#{PORTS[:pagination]}/mcp".freeze
   SSE_SERVER_URL = "http://localhost:#{PORTS[:sse]}/mcp/sse".freeze
+  AUTH_SERVER_URL = "http://localhost:#{PORTS[:auth]}/mcp".freeze
 
   # Environment variable to control whether to start servers as subprocesses
   # Set EXTERNAL_TEST_SERVERS=true to use external servers (useful for CI)
@@ -36,6 +38,13 @@ class TestServerManager
       pid_accessor: :pagination_server_pid,
       port: PORTS[:pagination]
     },
+    auth: {
+      command: "bun",
+      args: ["spec/fixtures/typescript-mcp/index.ts", "--", "--silent", "--auth"],
+      env: { "PORT" => PORTS[:auth].to_s },
+      pid_accessor: :auth_server_pid,
+      port: PORTS[:auth]
+    },
     sse: {
       command: "ruby",
       args: ["lib/app.rb", "--silent"],
@@ -48,7 +57,7 @@ class TestServerManager
   class << self
     include RubyLLM::MCP::Native::Transports::Support::Timeout
 
-    attr_accessor :stdio_server_pid, :http_server_pid, :sse_server_pid, :pagination_server_pid
+    attr_accessor :stdio_server_pid, :http_server_pid, :sse_server_pid, :pagination_server_pid, :auth_server_pid
 
     def start_server
       if EXTERNAL_SERVERS
@@ -65,6 +74,7 @@ class TestServerManager
       stop_http_server
       stop_sse_server
       stop_pagination_server
+      stop_auth_server
     end
 
     def stop_stdio_server
@@ -91,6 +101,12 @@ class TestServerManager
       stop_server_type(:sse)
     end
 
+    def stop_auth_server
+      return if EXTERNAL_SERVERS
+
+      stop_server_type(:auth)
+    end
+
     def ensure_cleanup
       return if EXTERNAL_SERVERS
 
@@ -105,20 +121,22 @@ class TestServerManager
         stdio_server_pid && process_exists?(stdio_server_pid) &&
           http_server_pid && process_exists?(http_server_pid) &&
           sse_server_pid && process_exists?(sse_server_pid) &&
-          pagination_server_pid && process_exists?(pagination_server_pid)
+          pagination_server_pid && process_exists?(pagination_server_pid) &&
+          auth_server_pid && process_exists?(auth_server_pid)
       end
     end
 
     private
 
     def start_subprocess_servers
-      return if stdio_server_pid && http_server_pid && pagination_server_pid && sse_server_pid
+      return if stdio_server_pid && http_server_pid && pagination_server_pid && sse_server_pid && auth_server_pid
 
       begin
         start_server_type(:stdio)
         start_server_type(:http)
         start_server_type(:sse)
         start_server_type(:pagination)
+        start_server_type(:auth)
       rescue StandardError => e
         warn "Failed to start test server: #{e.message}"
         stop_server
@@ -133,6 +151,7 @@ class TestServerManager
       wait_for_external_server(:http)
       wait_for_external_server(:pagination)
       wait_for_external_server(:sse)
+      wait_for_external_server(:auth)
 
       warn "All external servers are ready!"
     end
@@ -152,7 +171,7 @@ class TestServerManager
     end
 
     def external_servers_running?
-      %i[http pagination sse].all? do |server_type|
+      %i[http pagination sse auth].all? do |server_type|
         config = SERVERS[server_type]
         port = config[:port]
         port_open?(port)
@@ -175,7 +194,7 @@ class TestServerManager
       spawn_options = {}
       spawn_options[:chdir] = config[:chdir] if config[:chdir]
 
-      pid = spawn(config[:command], *config[:args], **spawn_options)
+      pid = spawn(config.fetch(:env, {}), config[:command], *config[:args], **spawn_options)
       Process.detach(pid)
       send("#{pid_accessor}=", pid)
 